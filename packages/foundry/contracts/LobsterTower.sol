@@ -73,6 +73,15 @@ contract LobsterTower is Ownable, ReentrancyGuard {
     // positionId => Commit (each entry has one commit)
     mapping(uint256 => Commit) public commits;
 
+    // A key a committer lets topple their winning rolls for them, e.g. from a browser that auto-topples
+    struct ToppleSession {
+        address key;            // may only call topple for this committer's commits
+        uint64 validUntil;      // unix seconds
+    }
+
+    // committer => ToppleSession
+    mapping(address => ToppleSession) public toppleSessions;
+
     // ============ Pot ============
     uint256 public pot;
 
@@ -88,6 +97,7 @@ contract LobsterTower is Ownable, ReentrancyGuard {
     event DistributionUpdated(uint256 participantBps, uint256 burnBps);
     event EntryCostUpdated(uint256 oldCost, uint256 newCost);
     event PauseUpdated(bool paused);
+    event ToppleSessionSet(address indexed committer, address indexed key, uint64 validUntil);
 
     // ============ Modifiers ============
     modifier whenNotPaused() {
@@ -196,8 +206,20 @@ contract LobsterTower is Ownable, ReentrancyGuard {
         canTopple = (roll == 0);
     }
 
+    /**
+     * @notice Let `key` topple your winning rolls until `validUntil`. The key can't do anything else and the pot
+     * still goes to you. Pass address(0) to revoke.
+     * @param key The session key's address
+     * @param validUntil Unix seconds after which the key stops working
+     */
+    function setToppleSession(address key, uint64 validUntil) external {
+        toppleSessions[msg.sender] = ToppleSession(key, validUntil);
+        emit ToppleSessionSet(msg.sender, key, validUntil);
+    }
+
     /**
      * @notice Topple the tower! Reveal your commit to prove you won the lottery.
+     * Callable by the committer, or by their topple session key while it's valid. The pot goes to the committer.
      * @param positionId The position ID that committed
      * @param reveal The secret reveal value
      */
@@ -205,7 +227,11 @@ contract LobsterTower is Ownable, ReentrancyGuard {
         Commit storage c = commits[positionId];
         require(c.commitHash != bytes32(0), "No commit");
         require(!c.revealed, "Already revealed");
-        require(c.committer == msg.sender, "Not your commit");
+        ToppleSession storage session = toppleSessions[c.committer];
+        require(
+            c.committer == msg.sender || (session.key == msg.sender && block.timestamp <= session.validUntil),
+            "Not your commit"
+        );
         require(keccak256(abi.encodePacked(reveal)) == c.commitHash, "Bad reveal");
 
         bytes32 blockHash = blockhash(c.commitBlock);
@@ -225,12 +251,12 @@ contract LobsterTower is Ownable, ReentrancyGuard {
         towerRound++;
         totalToppled++;
 
-        // Send pot to toppler
+        // Send pot to the committer, even when their session key toppled
         if (potWon > 0) {
-            clawdToken.safeTransfer(msg.sender, potWon);
+            clawdToken.safeTransfer(c.committer, potWon);
         }
 
-        emit TowerToppled(towerRound - 1, msg.sender, potWon, height);
+        emit TowerToppled(towerRound - 1, c.committer, potWon, height);
     }
 
     /**
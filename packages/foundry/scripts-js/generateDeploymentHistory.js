@@ -0,0 +1,168 @@
+import {
+  readdirSync,
+  statSync,
+  readFileSync,
+  existsSync,
+  mkdirSync,
+  writeFileSync,
+} from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { format } from "prettier";
+import { ethers } from "ethers";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const generatedContractComment = `
+/**
+ * This file is autogenerated by Scaffold-ETH.
+ * You should not edit it manually or your changes might be overwritten.
+ */`;
+
+function getDirectories(path) {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  return readdirSync(path).filter(function (file) {
+    return statSync(join(path, file)).isDirectory();
+  });
+}
+
+function getRunFiles(path) {
+  return readdirSync(path).filter(
+    (file) =>
+      statSync(join(path, file)).isFile() &&
+      file.startsWith("run-") &&
+      file.endsWith(".json")
+  );
+}
+
+function loadDeploymentNames(deploymentsPath) {
+  const names = {};
+  if (!existsSync(deploymentsPath)) return names;
+
+  for (const file of readdirSync(deploymentsPath)) {
+    if (!file.endsWith(".json")) continue;
+    const deployment = JSON.parse(readFileSync(join(deploymentsPath, file)));
+    names[file.slice(0, -5)] = Object.fromEntries(
+      Object.entries(deployment)
+        .filter(([key]) => ethers.utils.isAddress(key))
+        .map(([address, name]) => [address.toLowerCase(), name])
+    );
+  }
+  return names;
+}
+
+// Unlike generateTsAbis.js this keeps every address a contract was ever deployed at, including the ones only
+// recorded in run-latest.json, so the frontend can still find allowances granted to old deployments
+function collectDeployments(broadcastPath, deploymentNames) {
+  const history = {};
+
+  for (const scriptFolder of getDirectories(broadcastPath)) {
+    const scriptPath = join(broadcastPath, scriptFolder);
+
+    for (const chainId of getDirectories(scriptPath)) {
+      const chainPath = join(scriptPath, chainId);
+
+      for (const file of getRunFiles(chainPath)) {
+        let broadcastData;
+        try {
+          broadcastData = JSON.parse(readFileSync(join(chainPath, file)));
+        } catch (error) {
+          console.warn(
+            `Warning: Could not parse ${join(chainPath, file)}:`,
+            error.message
+          );
+          continue;
+        }
+
+        for (const tx of broadcastData.transactions || []) {
+          if (
+            tx.transactionType !== "CREATE" &&
+            tx.transactionType !== "CREATE2"
+          ) {
+            continue;
+          }
+          const address = ethers.utils.getAddress(tx.contractAddress);
+          const name =
+            deploymentNames[chainId]?.[address.toLowerCase()] ||
+            tx.contractName;
+          const receipt = (broadcastData.receipts || []).find(
+            (r) => r.transactionHash === tx.hash
+          );
+
+          history[chainId] ??= {};
+          history[chainId][name] ??= {};
+          history[chainId][name][address] = {
+            address,
+            deployedAt: Math.floor((broadcastData.timestamp || 0) / 1000),
+            deployedOnBlock:
+              receipt?.blockNumber && Number(BigInt(receipt.blockNumber)),
+            deploymentScript: scriptFolder,
+          };
+        }
+      }
+    }
+  }
+
+  // Newest deployment first
+  return Object.fromEntries(
+    Object.entries(history).map(([chainId, contracts]) => [
+      chainId,
+      Object.fromEntries(
+        Object.entries(contracts).map(([name, byAddress]) => [
+          name,
+          Object.values(byAddress).sort((a, b) => b.deployedAt - a.deployedAt),
+        ])
+      ),
+    ])
+  );
+}
+
+function main() {
+  const broadcastPath = join(__dirname, "..", "broadcast");
+  const deploymentsPath = join(__dirname, "..", "deployments");
+  const history = collectDeployments(
+    broadcastPath,
+    loadDeploymentNames(deploymentsPath)
+  );
+
+  const NEXTJS_TARGET_DIR = "../nextjs/contracts/";
+  if (!existsSync(NEXTJS_TARGET_DIR)) {
+    mkdirSync(NEXTJS_TARGET_DIR, { recursive: true });
+  }
+
+  const fileContent = Object.entries(history)
+    .map(
+      ([chainId, contracts]) =>
+        `${parseInt(chainId).toFixed(0)}:${JSON.stringify(contracts, null, 2)},`
+    )
+    .join("");
+
+  writeFileSync(
+    `${NEXTJS_TARGET_DIR}deploymentHistory.ts`,
+    format(
+      `
+      ${generatedContractComment}
+
+      /** Every address each contract was deployed at per chain, newest first */
+      const deploymentHistory = {${fileContent}} as const;
+
+      export default deploymentHistory;
+    `,
+      { parser: "typescript" }
+    )
+  );
+
+  console.log(
+    `📝 Updated deployment history on ${NEXTJS_TARGET_DIR}deploymentHistory.ts`
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("Error:", error);
+  process.exitCode = 1;
+}
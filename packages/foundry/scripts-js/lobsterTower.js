@@ -0,0 +1,521 @@
+import { listKeystores } from "./listKeystores.js";
+import dotenv from "dotenv";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import readline from "readline";
+import { parse } from "toml";
+import { ethers } from "ethers";
+import { LobsterTowerClient, generateReveal, lobsterTowerAbi } from "@se-2/sdk";
+import {
+  createPublicClient,
+  createWalletClient,
+  erc20Abi,
+  formatUnits,
+  getAddress,
+  http,
+  isAddress,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import * as chains from "viem/chains";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: join(__dirname, "..", ".env") });
+
+// Reveals are the only way to topple with a position, keep them out of git
+const REVEALS_PATH = join(__dirname, "..", ".lobster-reveals.json");
+const DEFAULT_KEYSTORE = "scaffold-eth-default";
+const DEFAULT_KEYSTORE_PASSWORD = "localhost";
+
+const HELP = `
+Usage: yarn tower <command> [args] [options]
+Commands:
+  stats                   Show the tower height, pot, entry cost and totals
+  positions <address>     List the positions of an address with their earnings and commit status
+  enter                   Approve CLAWD if needed and stack a lobster (the reveal is saved locally)
+  check <positionId>      Show the roll of a position using its saved reveal
+  topple <positionId>     Topple the tower with a winning position
+  claim                   Claim earnings across all your positions
+  expire <positionId>     Expire a commit whose reveal window has passed
+Options:
+  --network <network>     Network from foundry.toml [rpc_endpoints] (default: localhost)
+  --keystore <name>       Keystore account to sign with (bypasses selection prompt)
+  --address <address>     LobsterTower address (default: deployments/<chainId>.json)
+  --help, -h              Show this help message
+Examples:
+  yarn tower stats --network base
+  yarn tower enter --network base --keystore my-account
+  yarn tower check 42 --network base
+`;
+
+function parseCliArgs(args) {
+  const options = { network: "localhost", keystore: null, address: null };
+  const positional = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--network" && args[i + 1]) {
+      options.network = args[i + 1];
+      i++; // Skip next arg since we used it
+    } else if (args[i] === "--keystore" && args[i + 1]) {
+      options.keystore = args[i + 1];
+      i++; // Skip next arg since we used it
+    } else if (args[i] === "--address" && args[i + 1]) {
+      options.address = args[i + 1];
+      i++; // Skip next arg since we used it
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const [command, ...commandArgs] = positional;
+  return { command, commandArgs, options };
+}
+
+function getRpcUrl(network) {
+  const foundryTomlPath = join(__dirname, "..", "foundry.toml");
+  const parsedToml = parse(readFileSync(foundryTomlPath, "utf-8"));
+  const rpcUrl = parsedToml.rpc_endpoints[network];
+
+  if (!rpcUrl) {
+    throw new Error(
+      `Network '${network}' not found in foundry.toml! Please check the [rpc_endpoints] section for available networks.`
+    );
+  }
+  if (!rpcUrl.includes("${ALCHEMY_API_KEY}")) return rpcUrl;
+
+  if (!process.env.ALCHEMY_API_KEY) {
+    throw new Error(
+      `Network '${network}' needs ALCHEMY_API_KEY, set it in packages/foundry/.env or the environment.`
+    );
+  }
+  return rpcUrl.replace("${ALCHEMY_API_KEY}", process.env.ALCHEMY_API_KEY);
+}
+
+function getChain(chainId) {
+  return Object.values(chains).find((chain) => chain.id === chainId);
+}
+
+function getTowerAddress(chainId, addressArg) {
+  if (addressArg) return getAddress(addressArg);
+
+  const deploymentPath = join(
+    __dirname,
+    "..",
+    "deployments",
+    `${chainId}.json`
+  );
+  const deployment = existsSync(deploymentPath)
+    ? JSON.parse(readFileSync(deploymentPath, "utf-8"))
+    : {};
+  const address = Object.keys(deployment).find(
+    (key) => deployment[key] === "LobsterTower"
+  );
+
+  if (!address) {
+    throw new Error(
+      `No LobsterTower deployment found for chain ${chainId}. Deploy it first or pass --address.`
+    );
+  }
+
+  return getAddress(address);
+}
+
+function parsePositionId(value) {
+  if (!value || !/^\d+$/.test(value)) {
+    throw new Error("Please provide a position id, e.g. `yarn tower check 42`");
+  }
+  return BigInt(value);
+}
+
+function formatClawd(amount) {
+  const [whole, fraction] = formatUnits(amount, 18).split(".");
+  const commified = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return `${fraction ? `${commified}.${fraction}` : commified} CLAWD`;
+}
+
+function readTower(publicClient, address, functionName) {
+  return publicClient.readContract({
+    address,
+    abi: lobsterTowerAbi,
+    functionName,
+  });
+}
+
+// ============ Keystore ============
+
+function promptPassword(question) {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.output.write("\n");
+      rl.close();
+      resolve(answer);
+    });
+    // Keep the password off the screen
+    rl._writeToOutput = () => {};
+  });
+}
+
+// Foundry keystores are standard encrypted JSON wallets, ethers decrypts them and viem signs with the key
+async function loadAccount(options) {
+  let keystoreName = options.keystore;
+  if (!keystoreName) {
+    keystoreName =
+      options.network === "localhost"
+        ? process.env.LOCALHOST_KEYSTORE_ACCOUNT || DEFAULT_KEYSTORE
+        : await listKeystores(
+            "Select a keystore to sign with (enter the number, e.g., 1): "
+          );
+  }
+
+  if (keystoreName === DEFAULT_KEYSTORE && options.network !== "localhost") {
+    throw new Error(
+      "The default account (scaffold-eth-default) can only be used on localhost."
+    );
+  }
+
+  const keystorePath = join(
+    process.env.HOME,
+    ".foundry",
+    "keystores",
+    keystoreName
+  );
+  if (!existsSync(keystorePath)) {
+    throw new Error(
+      `Keystore '${keystoreName}' not found! Please check that the keystore exists in ~/.foundry/keystores/`
+    );
+  }
+
+  const password =
+    keystoreName === DEFAULT_KEYSTORE
+      ? DEFAULT_KEYSTORE_PASSWORD
+      : await promptPassword(`\n🔐 Password for ${keystoreName}: `);
+
+  try {
+    const wallet = await ethers.Wallet.fromEncryptedJson(
+      readFileSync(keystorePath, "utf-8"),
+      password
+    );
+    console.log(`\n🔑 Signing as ${wallet.address} (${keystoreName})`);
+    return privateKeyToAccount(wallet.privateKey);
+  } catch (error) {
+    throw new Error("Failed to decrypt keystore. Wrong password?");
+  }
+}
+
+// ============ Reveal file ============
+
+function revealScope(chainId, tower, account) {
+  return `${chainId}:${tower.toLowerCase()}:${account.toLowerCase()}`;
+}
+
+function readReveals() {
+  return existsSync(REVEALS_PATH)
+    ? JSON.parse(readFileSync(REVEALS_PATH, "utf-8"))
+    : {};
+}
+
+function writeReveals(reveals) {
+  writeFileSync(REVEALS_PATH, JSON.stringify(reveals, null, 2) + "\n", {
+    mode: 0o600,
+  });
+}
+
+function saveReveal(scope, positionId, reveal) {
+  const reveals = readReveals();
+  reveals[scope] = { ...reveals[scope], [positionId.toString()]: reveal };
+  writeReveals(reveals);
+}
+
+function deleteReveal(scope, positionId) {
+  const reveals = readReveals();
+  if (!reveals[scope]?.[positionId.toString()]) return;
+  delete reveals[scope][positionId.toString()];
+  if (Object.keys(reveals[scope]).length === 0) delete reveals[scope];
+  writeReveals(reveals);
+}
+
+// `check` doesn't need a signer, so look the reveal up in any account's scope for this tower
+function findReveal(chainId, tower, positionId) {
+  const prefix = `${chainId}:${tower.toLowerCase()}:`;
+  const reveals = readReveals();
+  const scope = Object.keys(reveals).find(
+    (key) => key.startsWith(prefix) && reveals[key][positionId.toString()]
+  );
+  return scope ? reveals[scope][positionId.toString()] : undefined;
+}
+
+async function getCommit(tower, positionId) {
+  const commit = await tower.getCommitInfo(positionId);
+  if (BigInt(commit.commitHash) === 0n) {
+    throw new Error(`Position #${positionId} has no commit`);
+  }
+  return commit;
+}
+
+// ============ Commands ============
+
+async function stats({ tower, publicClient }) {
+  const [stats, participantBps, burnBps, paused] = await Promise.all([
+    tower.getStats(),
+    readTower(publicClient, tower.address, "participantBps"),
+    readTower(publicClient, tower.address, "burnBps"),
+    readTower(publicClient, tower.address, "paused"),
+  ]);
+  const [lobstersPct, burnPct] = [
+    Number(participantBps) / 100,
+    Number(burnBps) / 100,
+  ];
+
+  console.log(
+    `\n🦞 Lobster Tower at ${tower.address}${paused ? " (⏸ paused)" : ""}`
+  );
+  console.log(`   Height: ${stats.height} lobsters`);
+  console.log(`   Round: ${stats.round}`);
+  console.log(`   Pot: ${formatClawd(stats.pot)}`);
+  console.log(`   Entry cost: ${formatClawd(stats.entryCost)}`);
+  console.log(
+    `   Split: ${lobstersPct}% lobsters · ${burnPct}% burn · ${
+      100 - lobstersPct - burnPct
+    }% pot`
+  );
+  console.log(`   Total burned: ${formatClawd(stats.totalBurned)}`);
+  console.log(`   Total paid out: ${formatClawd(stats.totalPaidOut)}`);
+  console.log(`   Times toppled: ${stats.totalToppled}`);
+}
+
+async function positions({ tower, commandArgs }) {
+  const [owner] = commandArgs;
+  if (!owner || !isAddress(owner)) {
+    throw new Error(
+      "Please provide an address, e.g. `yarn tower positions 0x...`"
+    );
+  }
+
+  const lobsters = await tower.getPositions(owner);
+  if (lobsters.length === 0) {
+    console.log(`\n🦞 ${owner} has no lobsters yet`);
+    return;
+  }
+
+  console.log(`\n🦞 ${lobsters.length} lobster(s) of ${owner}`);
+  for (const lobster of lobsters) {
+    const commit = await tower.getCommitInfo(lobster.positionId);
+    const status = commit.revealed
+      ? "settled"
+      : commit.expired
+      ? "expired"
+      : "rolling";
+    console.log(
+      `   #${lobster.positionId} · round ${
+        lobster.round
+      } · unclaimed ${formatClawd(lobster.unclaimed)} · claimed ${formatClawd(
+        lobster.claimedAmount
+      )} · commit ${status}`
+    );
+  }
+}
+
+async function enter({ tower, publicClient, chainId, getSigner }) {
+  const { account, writableTower } = await getSigner();
+
+  const [entryCost, clawdAddress, paused] = await Promise.all([
+    readTower(publicClient, tower.address, "entryCost"),
+    readTower(publicClient, tower.address, "clawdToken"),
+    readTower(publicClient, tower.address, "paused"),
+  ]);
+  if (paused) throw new Error("The tower is paused");
+
+  const balance = await publicClient.readContract({
+    address: clawdAddress,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [account.address],
+  });
+  if (balance < entryCost) {
+    throw new Error(
+      `Not enough CLAWD: entry costs ${formatClawd(
+        entryCost
+      )}, you have ${formatClawd(balance)}`
+    );
+  }
+
+  const reveal = generateReveal();
+  // Printed up front so the reveal isn't lost if anything below fails
+  console.log(`\n🎲 Reveal: ${reveal}`);
+  console.log(`\n📤 Entering the tower for ${formatClawd(entryCost)}`);
+
+  const { hash, positionId } = await writableTower.enter({ reveal });
+  console.log(`✅ Confirmed: ${hash}`);
+
+  saveReveal(
+    revealScope(chainId, tower.address, account.address),
+    positionId,
+    reveal
+  );
+  console.log(
+    `\n🦞 Lobster #${positionId} stacked! Reveal saved to ${REVEALS_PATH}`
+  );
+  console.log(`   Check your roll with: yarn tower check ${positionId}`);
+}
+
+async function check({ tower, publicClient, chainId, commandArgs }) {
+  const positionId = parsePositionId(commandArgs[0]);
+  const commit = await getCommit(tower, positionId);
+  if (commit.revealed) {
+    console.log(`\n🦞 #${positionId}: commit already settled`);
+    return;
+  }
+  if (commit.expired) {
+    console.log(
+      `\n⌛ #${positionId}: reveal window has passed, run \`yarn tower expire ${positionId}\` to close it`
+    );
+    return;
+  }
+
+  const reveal = findReveal(chainId, tower.address, positionId);
+  if (!reveal) {
+    throw new Error(`No saved reveal for #${positionId} in ${REVEALS_PATH}`);
+  }
+
+  const [result, toppleModulo] = await Promise.all([
+    tower.checkRoll(positionId, reveal),
+    readTower(publicClient, tower.address, "TOPPLE_MODULO"),
+  ]);
+  if (BigInt(result.blockHash) === 0n) {
+    console.log(`\n🎲 #${positionId}: still rolling, try again next block`);
+    return;
+  }
+
+  if (result.winner) {
+    console.log(
+      `\n🎉 #${positionId}: roll ${result.roll}/${toppleModulo} — WINNER! ${result.blocksRemaining} blocks left to topple`
+    );
+    console.log(`   Topple with: yarn tower topple ${positionId}`);
+  } else {
+    console.log(
+      `\n🦞 #${positionId}: roll ${result.roll}/${toppleModulo} — tower stands`
+    );
+  }
+}
+
+async function topple({ tower, chainId, commandArgs, getSigner }) {
+  const positionId = parsePositionId(commandArgs[0]);
+  const { account, writableTower } = await getSigner();
+  const scope = revealScope(chainId, tower.address, account.address);
+
+  const reveal = readReveals()[scope]?.[positionId.toString()];
+  if (!reveal) {
+    throw new Error(
+      `No saved reveal for #${positionId} from ${account.address} in ${REVEALS_PATH}`
+    );
+  }
+
+  const result = await tower.checkRoll(positionId, reveal);
+  if (!result.winner) {
+    throw new Error(
+      `#${positionId} is not a winning roll (roll ${result.roll})`
+    );
+  }
+
+  console.log(`\n📤 Toppling with #${positionId}`);
+  const { hash, height, potWon } = await writableTower.topple(
+    positionId,
+    reveal
+  );
+  console.log(`✅ Confirmed: ${hash}`);
+  deleteReveal(scope, positionId);
+
+  console.log(
+    `\n🌊 Tower toppled at height ${height}! You won ${formatClawd(potWon)}`
+  );
+}
+
+async function claim({ tower, getSigner }) {
+  const { account, writableTower } = await getSigner();
+
+  const unclaimed = await tower.getUnclaimedEarnings(account.address);
+  if (unclaimed === 0n) {
+    console.log("\n🦞 Nothing to claim yet");
+    return;
+  }
+
+  console.log(`\n📤 Claiming ${formatClawd(unclaimed)}`);
+  const { hash, amount } = await writableTower.claim();
+  console.log(`✅ Confirmed: ${hash}`);
+  console.log(`\n💰 Claimed ${formatClawd(amount)}`);
+}
+
+async function expire({ tower, chainId, commandArgs, getSigner }) {
+  const positionId = parsePositionId(commandArgs[0]);
+  const commit = await getCommit(tower, positionId);
+  if (!commit.expired) {
+    throw new Error(
+      commit.revealed
+        ? `#${positionId} is already settled`
+        : `#${positionId} is still inside its reveal window`
+    );
+  }
+
+  const { writableTower } = await getSigner();
+  console.log(`\n📤 Expiring commit of #${positionId}`);
+  const { hash } = await writableTower.expire(positionId);
+  console.log(`✅ Confirmed: ${hash}`);
+  deleteReveal(
+    revealScope(chainId, tower.address, commit.committer),
+    positionId
+  );
+  console.log(`\n⌛ Commit of #${positionId} expired`);
+}
+
+const COMMANDS = { stats, positions, enter, check, topple, claim, expire };
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.length === 0 || args.includes("--help") || args.includes("-h")) {
+    console.log(HELP);
+    process.exit(0);
+  }
+
+  const { command, commandArgs, options } = parseCliArgs(args);
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`\n❌ Unknown command '${command}'`);
+    console.log(HELP);
+    process.exit(1);
+  }
+
+  const transport = http(getRpcUrl(options.network));
+  const chainId = await createPublicClient({ transport }).getChainId();
+  const chain = getChain(chainId);
+  const publicClient = createPublicClient({ chain, transport });
+  const address = getTowerAddress(chainId, options.address);
+
+  await run({
+    tower: new LobsterTowerClient({ publicClient, address }),
+    publicClient,
+    chainId,
+    commandArgs,
+    getSigner: async () => {
+      const account = await loadAccount(options);
+      const walletClient = createWalletClient({ account, chain, transport });
+      return {
+        account,
+        writableTower: new LobsterTowerClient({
+          publicClient,
+          walletClient,
+          address,
+        }),
+      };
+    },
+  });
+}
+
+main().catch((error) => {
+  console.error(`\n❌ ${error.shortMessage || error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,397 @@
+import { createServer } from "http";
+import { ethers } from "ethers";
+
+// EntryPoint v0.7, deployed at the same address on every chain (and on a fork of one)
+const ENTRY_POINT_ADDRESS = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+// Factory behind viem's toSoladySmartAccount, the account the frontend builds
+const SOLADY_FACTORY_ADDRESS = "0x5d82735936c6Cd5DE57cC3c1A799f6B2E6F933Df";
+
+const PACKED_USER_OPERATION =
+  "(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)";
+
+const ENTRY_POINT_ABI = [
+  `function handleOps(${PACKED_USER_OPERATION}[] ops, address beneficiary)`,
+  `function getUserOpHash(${PACKED_USER_OPERATION} userOp) view returns (bytes32)`,
+  "function balanceOf(address account) view returns (uint256)",
+  "function depositTo(address account) payable",
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  "event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)",
+  "error FailedOp(uint256 opIndex, string reason)",
+  "error FailedOpWithRevert(uint256 opIndex, string reason, bytes inner)",
+];
+
+// Gas estimates don't have to be tight, the stand-in pays for them itself
+const PRE_VERIFICATION_GAS = 100_000;
+const VERIFICATION_GAS_LIMIT = 300_000;
+const DEPLOYMENT_VERIFICATION_GAS_LIMIT = 800_000;
+const DEFAULT_CALL_GAS_LIMIT = 1_000_000;
+
+const HELP = `
+Usage: yarn bundler [options]
+Serves the ERC-4337 bundler (eth_*) and paymaster (pm_*) JSON-RPC methods the frontend's gasless mode needs, backed by
+an anvil fork. Every UserOperation is sponsored: its gas is deposited to the EntryPoint from the node's first
+unlocked account, which also submits the bundle.
+Options:
+  --rpc-url <url>         Node to bundle on (default: http://127.0.0.1:8545)
+  --port <port>           Port to serve on (default: 4337)
+  --help, -h              Show this help message
+Example:
+  yarn fork --network base
+  yarn bundler
+  NEXT_PUBLIC_BUNDLER_URL=http://localhost:4337 NEXT_PUBLIC_PAYMASTER_URL=http://localhost:4337 yarn start
+`;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+class RpcError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function parseCliArgs(args) {
+  const options = { rpcUrl: "http://127.0.0.1:8545", port: 4337 };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--help" || args[i] === "-h") {
+      options.help = true;
+    } else if (args[i] === "--rpc-url" && args[i + 1]) {
+      options.rpcUrl = args[i + 1];
+      i++; // Skip next arg since we used it
+    } else if (args[i] === "--port" && args[i + 1]) {
+      options.port = Number(args[i + 1]);
+      i++; // Skip next arg since we used it
+    } else {
+      throw new Error(`Unknown option ${args[i]}, see \`yarn bundler --help\``);
+    }
+  }
+
+  return options;
+}
+
+const toHex = (value) => ethers.BigNumber.from(value || 0).toHexString();
+
+// Two uint128 in one bytes32, the way v0.7 packs gas limits and fees
+const packUints = (high, low) =>
+  ethers.utils.hexZeroPad(
+    ethers.BigNumber.from(high).shl(128).or(low).toHexString(),
+    32
+  );
+
+function packUserOperation(userOp) {
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: userOp.factory
+      ? ethers.utils.hexConcat([userOp.factory, userOp.factoryData || "0x"])
+      : "0x",
+    callData: userOp.callData,
+    accountGasLimits: packUints(
+      userOp.verificationGasLimit,
+      userOp.callGasLimit
+    ),
+    preVerificationGas: userOp.preVerificationGas,
+    gasFees: packUints(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+    paymasterAndData: userOp.paymaster
+      ? ethers.utils.hexConcat([
+          userOp.paymaster,
+          ethers.utils.hexZeroPad(
+            toHex(userOp.paymasterVerificationGasLimit),
+            16
+          ),
+          ethers.utils.hexZeroPad(toHex(userOp.paymasterPostOpGasLimit), 16),
+          userOp.paymasterData || "0x",
+        ])
+      : "0x",
+    signature: userOp.signature,
+  };
+}
+
+// What the EntryPoint charges up front: every gas limit at the max fee
+function getRequiredPrefund(userOp) {
+  return [
+    userOp.verificationGasLimit,
+    userOp.callGasLimit,
+    userOp.preVerificationGas,
+    userOp.paymasterVerificationGasLimit,
+    userOp.paymasterPostOpGasLimit,
+  ]
+    .reduce((total, gas) => total.add(gas || 0), ethers.BigNumber.from(0))
+    .mul(userOp.maxFeePerGas);
+}
+
+// Surfaces the EntryPoint's "AAxx" reasons, which viem maps to its own bundler errors
+function toRpcError(error) {
+  const revert = error.error?.error?.data ?? error.error?.data ?? error.data;
+  if (revert && typeof revert === "string") {
+    try {
+      const decoded = new ethers.utils.Interface(ENTRY_POINT_ABI).parseError(
+        revert
+      );
+      return new RpcError(-32500, decoded.args.reason);
+    } catch {
+      // Not an EntryPoint error, fall through
+    }
+  }
+  return new RpcError(-32603, error.reason || error.message);
+}
+
+function createBundler(provider, signer, entryPoint) {
+  const entryPointInterface = entryPoint.interface;
+  // userOpHash => what was sent and in which transaction
+  const sentOperations = new Map();
+  // Bundles go out one at a time so deposits and handleOps never race for the signer's nonce
+  let queue = Promise.resolve();
+  const enqueue = (task) => {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  const checkEntryPoint = (address) => {
+    if (address?.toLowerCase() !== ENTRY_POINT_ADDRESS.toLowerCase()) {
+      throw new RpcError(-32602, `Unsupported EntryPoint ${address}`);
+    }
+  };
+
+  const estimateUserOperationGas = async (userOp, entryPointAddress) => {
+    checkEntryPoint(entryPointAddress);
+    const isDeployed =
+      (await provider.getCode(userOp.sender)) !== "0x" && !userOp.factory;
+
+    // Calls can only be simulated once the account exists, the first UserOperation deploys it
+    let callGasLimit = ethers.BigNumber.from(DEFAULT_CALL_GAS_LIMIT);
+    if (isDeployed) {
+      try {
+        const estimate = await provider.estimateGas({
+          from: ENTRY_POINT_ADDRESS,
+          to: userOp.sender,
+          data: userOp.callData,
+        });
+        callGasLimit = estimate.mul(12).div(10);
+      } catch (error) {
+        throw toRpcError(error);
+      }
+    }
+
+    return {
+      preVerificationGas: toHex(PRE_VERIFICATION_GAS),
+      verificationGasLimit: toHex(
+        isDeployed ? VERIFICATION_GAS_LIMIT : DEPLOYMENT_VERIFICATION_GAS_LIMIT
+      ),
+      callGasLimit: callGasLimit.toHexString(),
+      paymasterVerificationGasLimit: "0x0",
+      paymasterPostOpGasLimit: "0x0",
+    };
+  };
+
+  const sendUserOperation = (userOp, entryPointAddress) =>
+    enqueue(async () => {
+      checkEntryPoint(entryPointAddress);
+      const packed = packUserOperation(userOp);
+      const userOpHash = await entryPoint.getUserOpHash(packed);
+
+      // Sponsor it: with enough deposit the account owes the EntryPoint nothing
+      const prefund = getRequiredPrefund(userOp);
+      const deposit = await entryPoint.balanceOf(userOp.sender);
+      if (deposit.lt(prefund)) {
+        const tx = await entryPoint.depositTo(userOp.sender, {
+          value: prefund.sub(deposit),
+        });
+        await tx.wait();
+      }
+
+      const beneficiary = await signer.getAddress();
+      try {
+        await entryPoint.callStatic.handleOps([packed], beneficiary);
+      } catch (error) {
+        throw toRpcError(error);
+      }
+      const tx = await entryPoint.handleOps([packed], beneficiary);
+      sentOperations.set(userOpHash.toLowerCase(), {
+        userOperation: userOp,
+        transactionHash: tx.hash,
+      });
+      console.log(`📦 ${userOpHash} from ${userOp.sender} in ${tx.hash}`);
+      return userOpHash;
+    });
+
+  const getUserOperationReceipt = async (userOpHash) => {
+    const sent = sentOperations.get(userOpHash.toLowerCase());
+    if (!sent) return null;
+
+    // Raw RPC receipt, viem formats it like any other
+    const receipt = await provider.send("eth_getTransactionReceipt", [
+      sent.transactionHash,
+    ]);
+    if (!receipt) return null;
+
+    const entryPointLogs = receipt.logs.filter(
+      (log) => log.address.toLowerCase() === ENTRY_POINT_ADDRESS.toLowerCase()
+    );
+    // Deposits, deployments and BeforeExecution aren't in the ABI above
+    const parsedLogs = entryPointLogs.flatMap((log) => {
+      try {
+        return [entryPointInterface.parseLog(log)];
+      } catch {
+        return [];
+      }
+    });
+    const isOwnLog = (log) =>
+      log.args.userOpHash.toLowerCase() === userOpHash.toLowerCase();
+    const event = parsedLogs.find(
+      (log) => log.name === "UserOperationEvent" && isOwnLog(log)
+    );
+    if (!event) return null;
+    const revertReason = parsedLogs.find(
+      (log) => log.name === "UserOperationRevertReason" && isOwnLog(log)
+    );
+
+    return {
+      userOpHash,
+      entryPoint: ENTRY_POINT_ADDRESS,
+      sender: event.args.sender,
+      nonce: event.args.nonce.toHexString(),
+      paymaster: event.args.paymaster,
+      actualGasCost: event.args.actualGasCost.toHexString(),
+      actualGasUsed: event.args.actualGasUsed.toHexString(),
+      success: event.args.success,
+      reason: revertReason?.args.revertReason ?? "",
+      // Bundles carry a single UserOperation, so everything the EntryPoint didn't log is its own
+      logs: receipt.logs.filter((log) => !entryPointLogs.includes(log)),
+      receipt,
+    };
+  };
+
+  const getUserOperationByHash = async (userOpHash) => {
+    const sent = sentOperations.get(userOpHash.toLowerCase());
+    if (!sent) return null;
+
+    const receipt = await provider.send("eth_getTransactionReceipt", [
+      sent.transactionHash,
+    ]);
+    if (!receipt) return null;
+
+    return {
+      userOperation: sent.userOperation,
+      entryPoint: ENTRY_POINT_ADDRESS,
+      transactionHash: receipt.transactionHash,
+      blockHash: receipt.blockHash,
+      blockNumber: receipt.blockNumber,
+    };
+  };
+
+  // The paymaster half: nothing to fill in, sendUserOperation deposits for every sender
+  const getPaymasterData = async (userOp, entryPointAddress) => {
+    checkEntryPoint(entryPointAddress);
+    return { sponsor: { name: "Local bundler" }, isFinal: true };
+  };
+
+  return {
+    eth_chainId: async () => toHex((await provider.getNetwork()).chainId),
+    eth_supportedEntryPoints: async () => [ENTRY_POINT_ADDRESS],
+    eth_estimateUserOperationGas: estimateUserOperationGas,
+    eth_sendUserOperation: sendUserOperation,
+    eth_getUserOperationReceipt: getUserOperationReceipt,
+    eth_getUserOperationByHash: getUserOperationByHash,
+    pm_getPaymasterStubData: getPaymasterData,
+    pm_getPaymasterData: getPaymasterData,
+  };
+}
+
+async function handleRequest(methods, request) {
+  const { id = null, method, params = [] } = request;
+  try {
+    if (!methods[method]) {
+      throw new RpcError(-32601, `Method ${method} is not supported`);
+    }
+    return { jsonrpc: "2.0", id, result: await methods[method](...params) };
+  } catch (error) {
+    const rpcError = error instanceof RpcError ? error : toRpcError(error);
+    console.error(`❌ ${method}: ${rpcError.message}`);
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: { code: rpcError.code, message: rpcError.message },
+    };
+  }
+}
+
+async function main() {
+  const options = parseCliArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  const provider = new ethers.providers.JsonRpcProvider(options.rpcUrl);
+  const [entryPointCode, factoryCode] = await Promise.all([
+    provider.getCode(ENTRY_POINT_ADDRESS),
+    provider.getCode(SOLADY_FACTORY_ADDRESS),
+  ]);
+  if (entryPointCode === "0x" || factoryCode === "0x") {
+    throw new Error(
+      `EntryPoint v0.7 or the Solady account factory is missing on ${options.rpcUrl}. Run the bundler against a fork (\`yarn fork --network base\`), a plain \`yarn chain\` has neither.`
+    );
+  }
+
+  // anvil unlocks its dev accounts, the first one funds deposits and submits bundles
+  const signer = provider.getSigner(0);
+  const entryPoint = new ethers.Contract(
+    ENTRY_POINT_ADDRESS,
+    ENTRY_POINT_ABI,
+    signer
+  );
+  const methods = createBundler(provider, signer, entryPoint);
+
+  const server = createServer((req, res) => {
+    Object.entries(CORS_HEADERS).forEach(([name, value]) =>
+      res.setHeader(name, value)
+    );
+    if (req.method === "OPTIONS") return res.writeHead(204).end();
+    if (req.method !== "POST") return res.writeHead(405).end();
+
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      let payload;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: null,
+            error: { code: -32700, message: "Parse error" },
+          })
+        );
+        return;
+      }
+
+      const response = Array.isArray(payload)
+        ? await Promise.all(
+            payload.map((request) => handleRequest(methods, request))
+          )
+        : await handleRequest(methods, payload);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  server.listen(options.port, () => {
+    console.log(
+      `🦞 Bundling UserOperations on ${options.rpcUrl}, serving on http://localhost:${options.port}`
+    );
+  });
+}
+
+main().catch((error) => {
+  console.error("Error:", error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,65 @@
+import { IndexerConfig } from "./config";
+import { TowerDatabase, getCheckpoint, getEvents, isTowerEventName } from "./db";
+import { HttpError, parsePagination, route } from "./http";
+import { getAccount, getDailyStats, getLeaderboard, getPosition, getRound, getRounds } from "./queries";
+import { LEADERBOARDS, Leaderboard } from "@se-2/sdk";
+import { getAddress, isAddress } from "viem";
+
+const parseId = (value: string, name: string) => {
+  if (!/^\d+$/.test(value)) throw new HttpError(400, `${name} must be a non-negative integer`);
+  return Number(value);
+};
+
+const notFound = (what: string): never => {
+  throw new HttpError(404, `${what} not found`);
+};
+
+/**
+ * REST endpoints over the indexed tower events. Lists take `limit` (max 100) and `offset` and answer with
+ * `{ items, pagination: { limit, offset, total } }`.
+ */
+export const createApiRoutes = (db: TowerDatabase, config: IndexerConfig) => [
+  route("/status", () => {
+    const checkpoint = getCheckpoint(db, config.chain.id, config.towerAddress);
+    return {
+      chainId: config.chain.id,
+      contract: config.towerAddress,
+      blockNumber: checkpoint?.blockNumber.toString() ?? null,
+    };
+  }),
+
+  route("/events", (_, url) => {
+    const name = url.searchParams.get("name") ?? "";
+    if (!isTowerEventName(name)) throw new HttpError(400, `Unknown event "${name}"`);
+    return getEvents(db, name, parsePagination(url));
+  }),
+
+  route("/rounds", (_, url) => getRounds(db, parsePagination(url))),
+
+  route(
+    "/rounds/:id",
+    ({ id }, url) => getRound(db, parseId(id, "Round"), parsePagination(url)) ?? notFound(`Round ${id}`),
+  ),
+
+  route("/positions/:id", ({ id }) => getPosition(db, parseId(id, "Position id")) ?? notFound(`Position ${id}`)),
+
+  route("/accounts/:address", ({ address }, url) => {
+    if (!isAddress(address, { strict: false })) throw new HttpError(400, `Invalid address "${address}"`);
+    return getAccount(db, getAddress(address), parsePagination(url));
+  }),
+
+  route("/leaderboards/:board", ({ board }, url) => {
+    if (!LEADERBOARDS.includes(board as Leaderboard)) {
+      throw new HttpError(400, `Unknown leaderboard "${board}", expected one of ${LEADERBOARDS.join(", ")}`);
+    }
+    const round = url.searchParams.get("round");
+    return getLeaderboard(
+      db,
+      board as Leaderboard,
+      round === null ? undefined : parseId(round, "Round"),
+      parsePagination(url),
+    );
+  }),
+
+  route("/stats/daily", (_, url) => getDailyStats(db, parsePagination(url))),
+];
@@ -0,0 +1,69 @@
+import "dotenv/config";
+import { BPS_DENOMINATOR, getLobsterTowerDeployment } from "@se-2/sdk";
+import { Address, Chain, getAddress } from "viem";
+import * as chains from "viem/chains";
+
+export type IndexerConfig = {
+  chain: Chain;
+  rpcUrl: string;
+  towerAddress: Address;
+  startBlock: bigint;
+  dbPath: string;
+  /** Max blocks per `eth_getLogs` request */
+  batchSize: bigint;
+  pollingInterval: number;
+  /** How many recent block hashes are kept to find the common ancestor after a reorg */
+  reorgDepth: number;
+  port: number;
+  /**
+   * The distribution the tower was deployed with, for RPCs that can't read state at the start block. Replaying
+   * earnings depends on it, so without it the indexer refuses to start.
+   */
+  genesis?: { participantBps: bigint; burnBps: bigint };
+};
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`${name} must be a non-negative integer`);
+  return parsed;
+};
+
+const loadGenesis = () => {
+  const participantBps = process.env.INDEXER_GENESIS_PARTICIPANT_BPS;
+  const burnBps = process.env.INDEXER_GENESIS_BURN_BPS;
+  if (!participantBps && !burnBps) return undefined;
+  if (!participantBps || !burnBps) {
+    throw new Error("Set both INDEXER_GENESIS_PARTICIPANT_BPS and INDEXER_GENESIS_BURN_BPS, or neither");
+  }
+  const genesis = {
+    participantBps: BigInt(numberFromEnv("INDEXER_GENESIS_PARTICIPANT_BPS", 0)),
+    burnBps: BigInt(numberFromEnv("INDEXER_GENESIS_BURN_BPS", 0)),
+  };
+  if (genesis.participantBps + genesis.burnBps > BPS_DENOMINATOR) {
+    throw new Error(`The genesis distribution adds up to more than ${BPS_DENOMINATOR} bps`);
+  }
+  return genesis;
+};
+
+export const loadConfig = (): IndexerConfig => {
+  const chainId = numberFromEnv("INDEXER_CHAIN_ID", chains.base.id);
+  const chain = Object.values(chains).find(c => c.id === chainId);
+  if (!chain) throw new Error(`Unknown chain ${chainId}`);
+
+  const deployment = process.env.INDEXER_TOWER_ADDRESS ? undefined : getLobsterTowerDeployment(chainId);
+
+  return {
+    chain,
+    rpcUrl: process.env.INDEXER_RPC_URL || chain.rpcUrls.default.http[0],
+    towerAddress: getAddress(process.env.INDEXER_TOWER_ADDRESS || deployment!.address),
+    startBlock: BigInt(numberFromEnv("INDEXER_START_BLOCK", deployment?.deployedOnBlock ?? 0)),
+    dbPath: process.env.INDEXER_DB_PATH || "data/lobster-tower.db",
+    batchSize: BigInt(numberFromEnv("INDEXER_BATCH_SIZE", 500)),
+    pollingInterval: numberFromEnv("INDEXER_POLLING_INTERVAL", 3000),
+    reorgDepth: numberFromEnv("INDEXER_REORG_DEPTH", 64),
+    port: numberFromEnv("INDEXER_PORT", 4000),
+    genesis: loadGenesis(),
+  };
+};
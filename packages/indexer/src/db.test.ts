@@ -0,0 +1,66 @@
+import { IndexedLog, PRECISION, TowerDatabase, getAccEarnings, insertLog, openDatabase, setGenesis } from "./db";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { zeroAddress, zeroHash } from "viem";
+
+let db: TowerDatabase;
+let logIndex = 0;
+
+const log = (eventName: IndexedLog["eventName"], args: Record<string, unknown>): IndexedLog => ({
+  eventName,
+  args,
+  blockNumber: 1n,
+  logIndex: logIndex++,
+  transactionHash: zeroHash,
+  timestamp: 0n,
+});
+
+const enter = (positionId: bigint, round: bigint, amount = 100n) => {
+  insertLog(db, log("LobsterPlaced", { positionId, owner: zeroAddress, amount, round }));
+  return getAccEarnings(db);
+};
+
+// Expected values follow `enterTower`'s accumulator update by hand: participantShare * 1e18 / height
+describe("accEarningsPerLobster replay", () => {
+  beforeEach(() => {
+    db = openDatabase(":memory:");
+    logIndex = 0;
+    setGenesis(db, { participantBps: 8000n, burnBps: 1000n });
+  });
+
+  it("spreads each participant share over the lobsters below and rounds down", () => {
+    assert.equal(enter(1n, 0n), 0n);
+    assert.equal(enter(2n, 0n), 80n * PRECISION);
+    assert.equal(enter(3n, 0n), 120n * PRECISION);
+    assert.equal(enter(4n, 0n), 146_666_666_666_666_666_666n);
+  });
+
+  it("restarts the height after a topple without resetting the accumulator", () => {
+    enter(1n, 0n);
+    enter(2n, 0n);
+    insertLog(db, log("TowerToppled", { round: 0n, toppler: zeroAddress, potWon: 30n, height: 2n }));
+    assert.equal(enter(3n, 1n), 80n * PRECISION);
+    assert.equal(enter(4n, 1n), 160n * PRECISION);
+  });
+
+  it("switches from the genesis distribution at the latest DistributionUpdated", () => {
+    enter(1n, 0n);
+    assert.equal(enter(2n, 0n), 80n * PRECISION);
+    insertLog(db, log("DistributionUpdated", { participantBps: 5000n, burnBps: 0n }));
+    assert.equal(enter(3n, 0n), 80n * PRECISION + (50n * PRECISION) / 2n);
+  });
+
+  it("uses the entry's own amount, not the current entry cost", () => {
+    enter(1n, 0n, 12_345n);
+    assert.equal(enter(2n, 0n, 12_345n), 9876n * PRECISION);
+  });
+
+  it("refuses to replay entries without a genesis distribution", () => {
+    const empty = openDatabase(":memory:");
+    insertLog(empty, log("LobsterPlaced", { positionId: 1n, owner: zeroAddress, amount: 100n, round: 0n }));
+    assert.throws(
+      () => insertLog(empty, log("LobsterPlaced", { positionId: 2n, owner: zeroAddress, amount: 100n, round: 0n })),
+      /Genesis distribution/,
+    );
+  });
+});
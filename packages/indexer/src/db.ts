@@ -0,0 +1,346 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { Address, Hash } from "viem";
+
+export type TowerDatabase = Database.Database;
+
+type ColumnKind = "integer" | "amount" | "address" | "boolean";
+
+/**
+ * One table per LobsterTower event. Keys are the event's argument names, values the column they're stored in.
+ * uint256 amounts are stored as decimal TEXT since they don't fit SQLite's 64-bit integers.
+ */
+export const EVENT_TABLES = {
+  LobsterPlaced: {
+    table: "lobster_placed",
+    columns: { positionId: "integer", owner: "address", amount: "amount", round: "integer" },
+  },
+  TowerToppled: {
+    table: "tower_toppled",
+    columns: { round: "integer", toppler: "address", potWon: "amount", height: "integer" },
+  },
+  EarningsClaimed: {
+    table: "earnings_claimed",
+    columns: { user: "address", amount: "amount" },
+  },
+  EntryCostUpdated: {
+    table: "entry_cost_updated",
+    columns: { oldCost: "amount", newCost: "amount" },
+  },
+  DistributionUpdated: {
+    table: "distribution_updated",
+    columns: { participantBps: "integer", burnBps: "integer" },
+  },
+  PauseUpdated: {
+    table: "pause_updated",
+    columns: { paused: "boolean" },
+  },
+} as const satisfies Record<string, { table: string; columns: Record<string, ColumnKind> }>;
+
+export type TowerEventName = keyof typeof EVENT_TABLES;
+
+export const isTowerEventName = (name: string): name is TowerEventName => name in EVENT_TABLES;
+
+const toSnakeCase = (name: string) => name.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+const SQL_TYPES: Record<ColumnKind, string> = {
+  integer: "INTEGER NOT NULL",
+  amount: "TEXT NOT NULL",
+  address: "TEXT NOT NULL COLLATE NOCASE",
+  boolean: "INTEGER NOT NULL",
+};
+
+const createEventTable = ({ table, columns }: { table: string; columns: Record<string, ColumnKind> }) => `
+  CREATE TABLE ${table} (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    ${Object.entries(columns)
+      .map(([arg, kind]) => `${toSnakeCase(arg)} ${SQL_TYPES[kind]}`)
+      .join(",\n    ")},
+    PRIMARY KEY (block_number, log_index)
+  );
+`;
+
+// Append only: each entry runs once, tracked through `PRAGMA user_version`
+const MIGRATIONS = [
+  `
+    CREATE TABLE checkpoint (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      chain_id INTEGER NOT NULL,
+      contract TEXT NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL
+    );
+    CREATE TABLE blocks (
+      number INTEGER PRIMARY KEY,
+      hash TEXT NOT NULL
+    );
+    ${Object.values(EVENT_TABLES).map(createEventTable).join("\n")}
+    CREATE UNIQUE INDEX lobster_placed_position_id ON lobster_placed (position_id);
+    CREATE INDEX lobster_placed_owner ON lobster_placed (owner);
+    CREATE INDEX lobster_placed_round ON lobster_placed (round);
+    CREATE INDEX tower_toppled_toppler ON tower_toppled (toppler);
+    CREATE INDEX earnings_claimed_user ON earnings_claimed (user);
+  `,
+  // Lobsters keep the replayed accEarningsPerLobster at entry. Older rows can't be backfilled, so everything is
+  // indexed again from the start block
+  `
+    CREATE TABLE genesis (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      participant_bps INTEGER NOT NULL,
+      burn_bps INTEGER NOT NULL
+    );
+    ALTER TABLE lobster_placed ADD COLUMN earnings_debt TEXT NOT NULL DEFAULT '0';
+    DELETE FROM checkpoint;
+    DELETE FROM blocks;
+    ${Object.values(EVENT_TABLES)
+      .map(({ table }) => `DELETE FROM ${table};`)
+      .join("\n")}
+  `,
+];
+
+export const openDatabase = (path: string): TowerDatabase => {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+
+  const version = db.pragma("user_version", { simple: true }) as number;
+  db.transaction(() => {
+    MIGRATIONS.slice(version).forEach(sql => db.exec(sql));
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+
+  return db;
+};
+
+// ============ Checkpoint ============
+
+export type Checkpoint = {
+  blockNumber: bigint;
+  blockHash: Hash;
+};
+
+export const getCheckpoint = (db: TowerDatabase, chainId: number, contract: Address): Checkpoint | undefined => {
+  const row = db.prepare("SELECT * FROM checkpoint WHERE id = 1").get() as
+    | { chain_id: number; contract: string; block_number: number; block_hash: Hash }
+    | undefined;
+  if (!row) return undefined;
+  if (row.chain_id !== chainId || row.contract.toLowerCase() !== contract.toLowerCase()) {
+    throw new Error(
+      `Database was indexed for ${row.contract} on chain ${row.chain_id}, not ${contract} on chain ${chainId}. ` +
+        "Point INDEXER_DB_PATH to a new file.",
+    );
+  }
+  return { blockNumber: BigInt(row.block_number), blockHash: row.block_hash };
+};
+
+export const setCheckpoint = (db: TowerDatabase, chainId: number, contract: Address, checkpoint: Checkpoint) => {
+  db.prepare(
+    `INSERT INTO checkpoint (id, chain_id, contract, block_number, block_hash) VALUES (1, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET block_number = excluded.block_number, block_hash = excluded.block_hash`,
+  ).run(chainId, contract, checkpoint.blockNumber, checkpoint.blockHash);
+};
+
+// ============ Blocks (reorg detection) ============
+
+export const saveBlockHash = (db: TowerDatabase, blockNumber: bigint, hash: Hash) => {
+  db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)").run(blockNumber, hash);
+};
+
+/** Stored block hashes, newest first */
+export const getRecentBlocks = (db: TowerDatabase) =>
+  (db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as { number: number; hash: Hash }[]).map(
+    ({ number, hash }) => ({ blockNumber: BigInt(number), hash }),
+  );
+
+export const pruneBlocks = (db: TowerDatabase, belowBlock: bigint) => {
+  db.prepare("DELETE FROM blocks WHERE number < ?").run(belowBlock);
+};
+
+/** Drops everything indexed after `blockNumber`. Must run inside a transaction together with `setCheckpoint`. */
+export const rollbackAfter = (db: TowerDatabase, blockNumber: bigint) => {
+  Object.values(EVENT_TABLES).forEach(({ table }) =>
+    db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber),
+  );
+  db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+};
+
+/** Drops everything indexed along with the genesis distribution, so the next run indexes from the start block */
+export const resetIndex = (db: TowerDatabase) => {
+  db.transaction(() => {
+    Object.values(EVENT_TABLES).forEach(({ table }) => db.prepare(`DELETE FROM ${table}`).run());
+    ["checkpoint", "blocks", "genesis"].forEach(table => db.prepare(`DELETE FROM ${table}`).run());
+  })();
+};
+
+// ============ Earnings ============
+
+export const PRECISION = 10n ** 18n;
+export const BPS_DENOMINATOR = 10_000n;
+
+export type Genesis = { participantBps: bigint; burnBps: bigint };
+
+/** The distribution set in the constructor, which no event reports */
+export const getGenesis = (db: TowerDatabase): Genesis | undefined => {
+  const row = db.prepare("SELECT participant_bps, burn_bps FROM genesis WHERE id = 1").get() as
+    | { participant_bps: number; burn_bps: number }
+    | undefined;
+  return row && { participantBps: BigInt(row.participant_bps), burnBps: BigInt(row.burn_bps) };
+};
+
+export const setGenesis = (db: TowerDatabase, { participantBps, burnBps }: Genesis) => {
+  db.prepare("INSERT OR REPLACE INTO genesis (id, participant_bps, burn_bps) VALUES (1, ?, ?)").run(
+    participantBps,
+    burnBps,
+  );
+};
+
+/** `accEarningsPerLobster` after the latest indexed entry */
+export const getAccEarnings = (db: TowerDatabase) =>
+  BigInt(
+    (db
+      .prepare("SELECT earnings_debt FROM lobster_placed ORDER BY block_number DESC, log_index DESC LIMIT 1")
+      .pluck()
+      .get() as string | undefined) ?? 0,
+  );
+
+/**
+ * Replays `enterTower`'s accumulator update for the entry about to be inserted: its participant share is spread over
+ * the lobsters already stacked in this round (or goes to the pot for the first one). Relies on events being inserted
+ * in chain order. Returns the accumulator after the entry, which is the new lobster's `earningsDebt`.
+ */
+const nextAccEarnings = (db: TowerDatabase, { amount, round }: { amount: bigint; round: bigint }) => {
+  const acc = getAccEarnings(db);
+  const height = BigInt(db.prepare("SELECT COUNT(*) FROM lobster_placed WHERE round = ?").pluck().get(round) as number);
+  if (height === 0n) return acc;
+
+  const distribution = db
+    .prepare("SELECT participant_bps FROM distribution_updated ORDER BY block_number DESC, log_index DESC LIMIT 1")
+    .pluck()
+    .get() as number | undefined;
+  const participantBps = distribution !== undefined ? BigInt(distribution) : getGenesis(db)?.participantBps;
+  if (participantBps === undefined) throw new Error("Genesis distribution must be stored before indexing entries");
+
+  const participantShare = (amount * participantBps) / BPS_DENOMINATOR;
+  return acc + (participantShare * PRECISION) / height;
+};
+
+// ============ Events ============
+
+export type IndexedLog = {
+  eventName: TowerEventName;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  timestamp: bigint;
+};
+
+const toColumnValue = (kind: ColumnKind, value: unknown) => {
+  switch (kind) {
+    case "amount":
+      return (value as bigint).toString();
+    case "boolean":
+      return value ? 1 : 0;
+    default:
+      return value as bigint | string;
+  }
+};
+
+export const insertLog = (db: TowerDatabase, log: IndexedLog) => {
+  const { table, columns } = EVENT_TABLES[log.eventName];
+  const values: Record<string, unknown> = Object.fromEntries(
+    (Object.entries(columns) as [string, ColumnKind][]).map(([arg, kind]) => [
+      toSnakeCase(arg),
+      toColumnValue(kind, log.args[arg]),
+    ]),
+  );
+  if (log.eventName === "LobsterPlaced") {
+    values.earnings_debt = nextAccEarnings(db, log.args as { amount: bigint; round: bigint }).toString();
+  }
+
+  db.prepare(
+    `INSERT OR REPLACE INTO ${table} (block_number, log_index, transaction_hash, timestamp, ${Object.keys(values).join(
+      ", ",
+    )}) VALUES (${Array(Object.keys(values).length + 4)
+      .fill("?")
+      .join(", ")})`,
+  ).run(log.blockNumber, log.logIndex, log.transactionHash, log.timestamp, ...Object.values(values));
+};
+
+export type StoredEvent = {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: Hash;
+  timestamp: number;
+  /** Event arguments; amounts and other uint256 values are decimal strings, booleans are booleans */
+  args: Record<string, string | number | boolean>;
+};
+
+/**
+ * A row of an event table as `getEvents` selects it: the log columns, then each argument under its own name as SQLite
+ * returns it (amounts and addresses as TEXT, integers and booleans as INTEGER).
+ */
+export type EventRow = {
+  block_number: number;
+  log_index: number;
+  transaction_hash: Hash;
+  timestamp: number;
+  [arg: string]: string | number;
+};
+
+const selectArgs = (columns: Record<string, ColumnKind>) =>
+  Object.keys(columns)
+    .map(arg => `${toSnakeCase(arg)} AS "${arg}"`)
+    .join(", ");
+
+export const toStoredEvent = (
+  eventName: TowerEventName,
+  { block_number, log_index, transaction_hash, timestamp, ...args }: EventRow,
+): StoredEvent => {
+  const columns: Record<string, ColumnKind> = EVENT_TABLES[eventName].columns;
+  return {
+    blockNumber: block_number,
+    logIndex: log_index,
+    transactionHash: transaction_hash,
+    timestamp,
+    args: Object.fromEntries(
+      Object.entries(args).map(([arg, value]) => [
+        arg,
+        columns[arg] === "boolean" ? !!value : columns[arg] === "integer" ? String(value) : value,
+      ]),
+    ),
+  };
+};
+
+export type Pagination = { limit: number; offset: number };
+
+export type Page<T> = {
+  items: T[];
+  pagination: Pagination & { total: number };
+};
+
+export const countRows = (db: TowerDatabase, sql: string, ...params: unknown[]) =>
+  (db.prepare(`SELECT COUNT(*) AS total FROM (${sql})`).get(...params) as { total: number }).total;
+
+/** Latest events first */
+export const getEvents = (
+  db: TowerDatabase,
+  eventName: TowerEventName,
+  { limit, offset }: Pagination,
+): Page<StoredEvent> => {
+  const { table, columns } = EVENT_TABLES[eventName];
+  const rows = db
+    .prepare(
+      `SELECT block_number, log_index, transaction_hash, timestamp, ${selectArgs(columns)} FROM ${table}
+       ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`,
+    )
+    .all(limit, offset) as EventRow[];
+  return {
+    items: rows.map(row => toStoredEvent(eventName, row)),
+    pagination: { limit, offset, total: countRows(db, `SELECT 1 FROM ${table}`) },
+  };
+};
@@ -0,0 +1,187 @@
+import { TowerDatabase } from "./db";
+import {
+  AccountTotals,
+  Claim,
+  LeaderboardEntry,
+  Lobster,
+  Round,
+  Topple,
+  getAccountClaims,
+  getAccountLobsters,
+  getAccountTopples,
+  getAccountTotals,
+  getLeaderboard,
+  getLobster,
+  getRoundLobsters,
+  getRoundSummaries,
+  getRounds,
+  getTopples,
+} from "./queries";
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import { Leaderboard } from "@se-2/sdk";
+import { GraphQLError } from "graphql";
+import { createHandler } from "graphql-http/lib/use/http";
+import { Address, getAddress, isAddress } from "viem";
+
+const MAX_LIMIT = 100;
+
+const typeDefs = /* GraphQL */ `
+  """
+  uint256 amounts (CLAWD, 18 decimals) are decimal strings, timestamps are unix seconds.
+  """
+  type Query {
+    rounds(limit: Int = 20, offset: Int = 0): [Round!]!
+    round(id: Int!): Round
+    lobster(positionId: Int!): Lobster
+    topples(limit: Int = 20, offset: Int = 0): [Topple!]!
+    account(address: String!): Account!
+    "All-time unless a round is given"
+    leaderboard(board: Leaderboard!, round: Int, limit: Int = 20, offset: Int = 0): [LeaderboardEntry!]!
+  }
+
+  enum Leaderboard {
+    claimed
+    won
+    stacked
+    roi
+  }
+
+  type LeaderboardEntry {
+    rank: Int!
+    account: Account!
+    stacked: Int!
+    spent: String!
+    claimed: String!
+    won: String!
+    "(claimed + won - spent) / spent"
+    roi: Float
+  }
+
+  type Round {
+    id: Int!
+    lobsterCount: Int!
+    entered: String!
+    "Part of entered sent to the burn address"
+    burned: String!
+    startedAt: Int
+    lobsters(limit: Int = 20, offset: Int = 0): [Lobster!]!
+    "Null while the round is still standing"
+    topple: Topple
+  }
+
+  type Lobster {
+    positionId: Int!
+    owner: Account!
+    round: Round!
+    amount: String!
+    enteredAt: Int!
+    blockNumber: Int!
+    transactionHash: String!
+    "accEarningsPerLobster when the lobster entered"
+    earningsDebt: String!
+    "Earned so far, claimed or not"
+    earned: String!
+  }
+
+  type Claim {
+    account: Account!
+    amount: String!
+    timestamp: Int!
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type Topple {
+    round: Round!
+    toppler: Account!
+    potWon: String!
+    height: Int!
+    timestamp: Int!
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type Account {
+    address: String!
+    positionCount: Int!
+    spent: String!
+    earned: String!
+    claimed: String!
+    unclaimed: String!
+    won: String!
+    lobsters(limit: Int = 20, offset: Int = 0): [Lobster!]!
+    claims(limit: Int = 20, offset: Int = 0): [Claim!]!
+    topples(limit: Int = 20, offset: Int = 0): [Topple!]!
+  }
+`;
+
+type PageArgs = { limit: number; offset: number };
+type AccountParent = { address: Address; totals?: AccountTotals };
+
+const toPagination = ({ limit, offset }: PageArgs) => {
+  if (limit < 1 || offset < 0) throw new GraphQLError("limit must be positive and offset non-negative");
+  return { limit: Math.min(limit, MAX_LIMIT), offset };
+};
+
+const toAccount = (address: string): AccountParent => {
+  if (!isAddress(address, { strict: false })) throw new GraphQLError(`Invalid address "${address}"`);
+  return { address: getAddress(address) };
+};
+
+const createResolvers = (db: TowerDatabase) => {
+  const roundById = (round: number) => getRoundSummaries(db, [round])[0];
+  // Totals come from one set of queries, shared by all total fields of the same account
+  const totalsOf = (account: AccountParent) => (account.totals ??= getAccountTotals(db, account.address));
+
+  return {
+    Query: {
+      rounds: (_: unknown, args: PageArgs) => getRounds(db, toPagination(args)).items,
+      round: (_: unknown, { id }: { id: number }) => {
+        const round = roundById(id);
+        return round.lobsters > 0 || round.topple ? round : null;
+      },
+      lobster: (_: unknown, { positionId }: { positionId: number }) => getLobster(db, positionId) ?? null,
+      topples: (_: unknown, args: PageArgs) => getTopples(db, toPagination(args)).items,
+      account: (_: unknown, { address }: { address: string }) => toAccount(address),
+      leaderboard: (_: unknown, { board, round, ...args }: PageArgs & { board: Leaderboard; round?: number | null }) =>
+        getLeaderboard(db, board, round ?? undefined, toPagination(args)).items,
+    },
+    Round: {
+      id: (round: Round) => round.round,
+      lobsterCount: (round: Round) => round.lobsters,
+      lobsters: (round: Round, args: PageArgs) => getRoundLobsters(db, round.round, toPagination(args)).items,
+    },
+    Lobster: {
+      owner: (lobster: Lobster) => ({ address: lobster.owner }),
+      round: (lobster: Lobster) => roundById(lobster.round),
+    },
+    LeaderboardEntry: {
+      account: (entry: LeaderboardEntry) => ({ address: entry.address }),
+    },
+    Claim: {
+      account: (claim: Claim) => ({ address: claim.user }),
+    },
+    Topple: {
+      round: (topple: Topple) => roundById(topple.round),
+      toppler: (topple: Topple) => ({ address: topple.toppler }),
+    },
+    Account: {
+      positionCount: (account: AccountParent) => totalsOf(account).positions,
+      spent: (account: AccountParent) => totalsOf(account).spent,
+      earned: (account: AccountParent) => totalsOf(account).earned,
+      claimed: (account: AccountParent) => totalsOf(account).claimed,
+      unclaimed: (account: AccountParent) => totalsOf(account).unclaimed,
+      won: (account: AccountParent) => totalsOf(account).won,
+      lobsters: ({ address }: { address: Address }, args: PageArgs) =>
+        getAccountLobsters(db, address, toPagination(args)).items,
+      claims: ({ address }: { address: Address }, args: PageArgs) =>
+        getAccountClaims(db, address, toPagination(args)).items,
+      topples: ({ address }: { address: Address }, args: PageArgs) =>
+        getAccountTopples(db, address, toPagination(args)).items,
+    },
+  };
+};
+
+/** GraphQL endpoint (GET and POST, per the GraphQL over HTTP spec) over the same read models as the REST API */
+export const createGraphqlHandler = (db: TowerDatabase) =>
+  createHandler({ schema: makeExecutableSchema({ typeDefs, resolvers: createResolvers(db) }) });
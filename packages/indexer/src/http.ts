@@ -0,0 +1,99 @@
+import { Pagination } from "./db";
+import { createHash } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const parsePagination = (url: URL): Pagination => {
+  const limit = Number(url.searchParams.get("limit") ?? DEFAULT_LIMIT);
+  const offset = Number(url.searchParams.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 1) throw new HttpError(400, "limit must be a positive integer");
+  if (!Number.isInteger(offset) || offset < 0) throw new HttpError(400, "offset must be a non-negative integer");
+  return { limit: Math.min(limit, MAX_LIMIT), offset };
+};
+
+export type RouteHandler = (params: Record<string, string>, url: URL) => unknown;
+
+type Route = { pattern: RegExp; paramNames: string[]; handler: RouteHandler };
+
+/** Routes like `/rounds/:id`, matched against the whole path */
+export const route = (path: string, handler: RouteHandler): Route => {
+  const paramNames: string[] = [];
+  const pattern = new RegExp(
+    `^${path.replace(/:(\w+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return "([^/]+)";
+    })}$`,
+  );
+  return { pattern, paramNames, handler };
+};
+
+const decodeParam = (name: string, value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    if (error instanceof URIError) throw new HttpError(400, `${name} is not a valid URI component`);
+    throw error;
+  }
+};
+
+export const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type, If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+const sendJson = (req: IncomingMessage, res: ServerResponse, status: number, body: unknown) => {
+  const json = JSON.stringify(body);
+  // Responses only change when new events get indexed, so clients revalidate with the body hash instead of refetching
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+
+  if (status === 200 && req.headers["if-none-match"] === etag) {
+    res.writeHead(304, { ...CORS_HEADERS, ETag: etag, "Cache-Control": "no-cache" });
+    res.end();
+    return;
+  }
+
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    "Content-Type": "application/json",
+    ...(status === 200 ? { ETag: etag, "Cache-Control": "no-cache" } : {}),
+  });
+  res.end(json);
+};
+
+export const createRequestListener = (routes: Route[]) => (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, { ...CORS_HEADERS, "Access-Control-Allow-Methods": "GET, POST" });
+    res.end();
+    return;
+  }
+  if (req.method !== "GET") return sendJson(req, res, 405, { error: "Method not allowed" });
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  for (const { pattern, paramNames, handler } of routes) {
+    const match = url.pathname.replace(/\/$/, "").match(pattern);
+    if (!match) continue;
+
+    try {
+      const params = Object.fromEntries(paramNames.map((name, i) => [name, decodeParam(name, match[i + 1])]));
+      return sendJson(req, res, 200, handler(params, url));
+    } catch (error) {
+      if (error instanceof HttpError) return sendJson(req, res, error.status, { error: error.message });
+      console.error(`❌ ${req.url}:`, error);
+      return sendJson(req, res, 500, { error: "Internal error" });
+    }
+  }
+
+  sendJson(req, res, 404, { error: "Not found" });
+};
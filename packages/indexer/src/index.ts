@@ -0,0 +1,59 @@
+import { loadConfig } from "./config";
+import { getCheckpoint, openDatabase } from "./db";
+import { startServer } from "./server";
+import { AccEarningsMismatchError, SyncContext, ensureGenesis, syncBatch } from "./sync";
+import { createPublicClient, http } from "viem";
+
+const config = loadConfig();
+const db = openDatabase(config.dbPath);
+const client = createPublicClient({ chain: config.chain, transport: http(config.rpcUrl) });
+const ctx: SyncContext = { client, db, config };
+
+try {
+  await ensureGenesis(ctx);
+} catch (error) {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+const checkpoint = getCheckpoint(db, config.chain.id, config.towerAddress);
+console.log(
+  `🦞 Indexing LobsterTower ${config.towerAddress} on ${config.chain.name} from block ${
+    checkpoint ? checkpoint.blockNumber + 1n : config.startBlock
+  }`,
+);
+
+const server = startServer(db, config);
+let timeout: NodeJS.Timeout | undefined;
+let stopped = false;
+
+const loop = async () => {
+  let delay = config.pollingInterval;
+  try {
+    const result = await syncBatch(ctx);
+    // Keep going right away while catching up or after a rollback, wait for new blocks once synced
+    if (result.status !== "synced") delay = 0;
+  } catch (error) {
+    if (error instanceof AccEarningsMismatchError) {
+      console.error("❌", error.message);
+      server.close();
+      db.close();
+      process.exit(1);
+    }
+    console.error("❌ Sync failed, retrying:", error instanceof Error ? error.message : error);
+  }
+  if (!stopped) timeout = setTimeout(loop, delay);
+};
+
+const stop = () => {
+  stopped = true;
+  clearTimeout(timeout);
+  server.close();
+  db.close();
+  process.exit(0);
+};
+
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+loop();
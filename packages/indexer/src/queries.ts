@@ -0,0 +1,388 @@
+import {
+  BPS_DENOMINATOR,
+  PRECISION,
+  Page,
+  Pagination,
+  TowerDatabase,
+  countRows,
+  getAccEarnings,
+  getGenesis,
+} from "./db";
+import { Leaderboard, rankLeaderboard } from "@se-2/sdk";
+import { Address, Hash } from "viem";
+
+// Read models behind the REST API. uint256 amounts are decimal strings, everything else fits a JSON number.
+
+export type Topple = {
+  round: number;
+  toppler: Address;
+  potWon: string;
+  height: number;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: Hash;
+};
+
+export type Lobster = {
+  positionId: number;
+  owner: Address;
+  amount: string;
+  round: number;
+  enteredAt: number;
+  blockNumber: number;
+  transactionHash: Hash;
+  /** accEarningsPerLobster when the lobster entered */
+  earningsDebt: string;
+  /** Total earned so far, claimed or not (the contract's `getUnclaimedForPosition` plus what was claimed for it) */
+  earned: string;
+};
+
+export type Claim = {
+  user: Address;
+  amount: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: Hash;
+};
+
+export type Round = {
+  round: number;
+  lobsters: number;
+  /** Total CLAWD paid in by the round's lobsters */
+  entered: string;
+  /** Part of `entered` sent to the burn address */
+  burned: string;
+  startedAt: number | null;
+  /** Null while the round is still standing */
+  topple: Topple | null;
+};
+
+export type AccountTotals = {
+  positions: number;
+  spent: string;
+  earned: string;
+  claimed: string;
+  /** earned - claimed, what `getUnclaimedEarnings` returns */
+  unclaimed: string;
+  won: string;
+};
+
+export type LeaderboardEntry = {
+  rank: number;
+  address: Address;
+  /** Lobsters stacked */
+  stacked: number;
+  spent: string;
+  claimed: string;
+  won: string;
+  /** (claimed + won - spent) / spent, null without any entry */
+  roi: number | null;
+};
+
+export type DailyStats = {
+  /** UTC day, YYYY-MM-DD */
+  day: string;
+  entries: number;
+  players: number;
+  volume: string;
+  topples: number;
+  potWon: string;
+  claims: number;
+  claimed: string;
+};
+
+const sumAmounts = (amounts: string[]) => amounts.reduce((total, amount) => total + BigInt(amount), 0n).toString();
+
+const page = <T>(items: T[], pagination: Pagination, total: number): Page<T> => ({
+  items,
+  pagination: { ...pagination, total },
+});
+
+const LOBSTER_COLUMNS = `position_id AS positionId, owner, amount, round, timestamp AS enteredAt,
+  block_number AS blockNumber, transaction_hash AS transactionHash, earnings_debt AS earningsDebt`;
+const TOPPLE_COLUMNS = `round, toppler, pot_won AS potWon, height, timestamp,
+  block_number AS blockNumber, transaction_hash AS transactionHash`;
+const CLAIM_COLUMNS = `user, amount, timestamp, block_number AS blockNumber, transaction_hash AS transactionHash`;
+
+// A round exists once a lobster entered it or it was toppled (a commit from an older round can topple an empty tower)
+const ROUNDS_SQL = "SELECT round FROM lobster_placed UNION SELECT round FROM tower_toppled";
+
+// Same math as `getUnclaimedForPosition`, without subtracting the claimed amount that events don't report per position
+const withEarnings = (db: TowerDatabase, lobsters: Omit<Lobster, "earned">[]): Lobster[] => {
+  const acc = getAccEarnings(db);
+  return lobsters.map(lobster => ({
+    ...lobster,
+    earned: ((acc - BigInt(lobster.earningsDebt)) / PRECISION).toString(),
+  }));
+};
+
+// Burn share of an entry, at the rate of the last `DistributionUpdated` before it (or the constructor's)
+const burnedBy = (db: TowerDatabase) => {
+  const genesisBps = getGenesis(db)?.burnBps ?? 0n;
+  const updates = db
+    .prepare(
+      `SELECT block_number AS blockNumber, log_index AS logIndex, burn_bps AS burnBps
+       FROM distribution_updated ORDER BY block_number DESC, log_index DESC`,
+    )
+    .all() as { blockNumber: number; logIndex: number; burnBps: number }[];
+
+  return (entry: { amount: string; blockNumber: number; logIndex: number }) => {
+    const update = updates.find(
+      ({ blockNumber, logIndex }) =>
+        blockNumber < entry.blockNumber || (blockNumber === entry.blockNumber && logIndex < entry.logIndex),
+    );
+    return (BigInt(entry.amount) * (update ? BigInt(update.burnBps) : genesisBps)) / BPS_DENOMINATOR;
+  };
+};
+
+// ============ Lobsters ============
+
+export const getLobster = (db: TowerDatabase, positionId: number): Lobster | undefined => {
+  const lobster = db.prepare(`SELECT ${LOBSTER_COLUMNS} FROM lobster_placed WHERE position_id = ?`).get(positionId) as
+    | Omit<Lobster, "earned">
+    | undefined;
+  return lobster && withEarnings(db, [lobster])[0];
+};
+
+export const getRoundLobsters = (db: TowerDatabase, round: number, { limit, offset }: Pagination): Page<Lobster> => {
+  const lobsters = db
+    .prepare(`SELECT ${LOBSTER_COLUMNS} FROM lobster_placed WHERE round = ? ORDER BY position_id LIMIT ? OFFSET ?`)
+    .all(round, limit, offset) as Omit<Lobster, "earned">[];
+  const total = db.prepare("SELECT COUNT(*) FROM lobster_placed WHERE round = ?").pluck().get(round) as number;
+  return page(withEarnings(db, lobsters), { limit, offset }, total);
+};
+
+export const getAccountLobsters = (db: TowerDatabase, address: Address, { limit, offset }: Pagination) => {
+  const lobsters = db
+    .prepare(`SELECT ${LOBSTER_COLUMNS} FROM lobster_placed WHERE owner = ? ORDER BY position_id DESC LIMIT ? OFFSET ?`)
+    .all(address, limit, offset) as Omit<Lobster, "earned">[];
+  const total = db.prepare("SELECT COUNT(*) FROM lobster_placed WHERE owner = ?").pluck().get(address) as number;
+  return page(withEarnings(db, lobsters), { limit, offset }, total);
+};
+
+// ============ Topples & claims ============
+
+export const getTopple = (db: TowerDatabase, round: number) =>
+  db.prepare(`SELECT ${TOPPLE_COLUMNS} FROM tower_toppled WHERE round = ?`).get(round) as Topple | undefined;
+
+export const getTopples = (db: TowerDatabase, { limit, offset }: Pagination): Page<Topple> => {
+  const topples = db
+    .prepare(`SELECT ${TOPPLE_COLUMNS} FROM tower_toppled ORDER BY round DESC LIMIT ? OFFSET ?`)
+    .all(limit, offset) as Topple[];
+  return page(topples, { limit, offset }, db.prepare("SELECT COUNT(*) FROM tower_toppled").pluck().get() as number);
+};
+
+export const getAccountTopples = (db: TowerDatabase, address: Address, { limit, offset }: Pagination) => {
+  const topples = db
+    .prepare(`SELECT ${TOPPLE_COLUMNS} FROM tower_toppled WHERE toppler = ? ORDER BY round DESC LIMIT ? OFFSET ?`)
+    .all(address, limit, offset) as Topple[];
+  const total = db.prepare("SELECT COUNT(*) FROM tower_toppled WHERE toppler = ?").pluck().get(address) as number;
+  return page(topples, { limit, offset }, total);
+};
+
+export const getAccountClaims = (db: TowerDatabase, address: Address, { limit, offset }: Pagination) => {
+  const claims = db
+    .prepare(
+      `SELECT ${CLAIM_COLUMNS} FROM earnings_claimed WHERE user = ?
+       ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`,
+    )
+    .all(address, limit, offset) as Claim[];
+  const total = db.prepare("SELECT COUNT(*) FROM earnings_claimed WHERE user = ?").pluck().get(address) as number;
+  return page(claims, { limit, offset }, total);
+};
+
+// ============ Rounds ============
+
+export const getRoundSummaries = (db: TowerDatabase, rounds: number[]): Round[] => {
+  if (rounds.length === 0) return [];
+  const placeholders = rounds.map(() => "?").join(", ");
+
+  const lobsterRows = db
+    .prepare(
+      `SELECT round, amount, timestamp, block_number AS blockNumber, log_index AS logIndex
+       FROM lobster_placed WHERE round IN (${placeholders})`,
+    )
+    .all(...rounds) as { round: number; amount: string; timestamp: number; blockNumber: number; logIndex: number }[];
+  const topples = db
+    .prepare(`SELECT ${TOPPLE_COLUMNS} FROM tower_toppled WHERE round IN (${placeholders})`)
+    .all(...rounds) as Topple[];
+
+  const burned = burnedBy(db);
+
+  return rounds.map(round => {
+    const lobsters = lobsterRows.filter(row => row.round === round);
+    return {
+      round,
+      lobsters: lobsters.length,
+      entered: sumAmounts(lobsters.map(row => row.amount)),
+      burned: lobsters.reduce((total, row) => total + burned(row), 0n).toString(),
+      startedAt: lobsters.length > 0 ? Math.min(...lobsters.map(row => row.timestamp)) : null,
+      topple: topples.find(topple => topple.round === round) ?? null,
+    };
+  });
+};
+
+/** Newest round first */
+export const getRounds = (db: TowerDatabase, { limit, offset }: Pagination): Page<Round> => {
+  const rounds = db
+    .prepare(`${ROUNDS_SQL} ORDER BY round DESC LIMIT ? OFFSET ?`)
+    .pluck()
+    .all(limit, offset) as number[];
+  return page(getRoundSummaries(db, rounds), { limit, offset }, countRows(db, ROUNDS_SQL));
+};
+
+export const getRound = (db: TowerDatabase, round: number, pagination: Pagination) => {
+  const [summary] = getRoundSummaries(db, [round]);
+  if (summary.lobsters === 0 && !summary.topple) return undefined;
+  return { ...summary, positions: getRoundLobsters(db, round, pagination) };
+};
+
+// ============ Positions ============
+
+export const getPosition = (db: TowerDatabase, positionId: number) => {
+  const lobster = getLobster(db, positionId);
+  return lobster && { ...lobster, roundTopple: getTopple(db, lobster.round) ?? null };
+};
+
+// ============ Accounts ============
+
+export const getAccountTotals = (db: TowerDatabase, address: Address): AccountTotals => {
+  const debts = db.prepare("SELECT earnings_debt FROM lobster_placed WHERE owner = ?").pluck().all(address) as string[];
+  const spent = db.prepare("SELECT amount FROM lobster_placed WHERE owner = ?").pluck().all(address) as string[];
+  const claimed = db.prepare("SELECT amount FROM earnings_claimed WHERE user = ?").pluck().all(address) as string[];
+  const won = db.prepare("SELECT pot_won FROM tower_toppled WHERE toppler = ?").pluck().all(address) as string[];
+
+  const acc = getAccEarnings(db);
+  const earned = debts.reduce((total, debt) => total + (acc - BigInt(debt)) / PRECISION, 0n);
+  const totalClaimed = BigInt(sumAmounts(claimed));
+
+  return {
+    positions: debts.length,
+    spent: sumAmounts(spent),
+    earned: earned.toString(),
+    claimed: totalClaimed.toString(),
+    unclaimed: (earned - totalClaimed).toString(),
+    won: sumAmounts(won),
+  };
+};
+
+export const getAccount = (db: TowerDatabase, address: Address, pagination: Pagination) => ({
+  address,
+  totals: getAccountTotals(db, address),
+  positions: getAccountLobsters(db, address, pagination),
+  claims: getAccountClaims(db, address, pagination),
+  topples: getAccountTopples(db, address, pagination),
+});
+
+// ============ Leaderboards ============
+
+type Filter = { where: string; params: unknown[] };
+
+const NO_FILTER: Filter = { where: "", params: [] };
+
+/** Claims made while `round` stood: after the topple that ended the previous round, up to its own topple */
+const claimsDuring = (db: TowerDatabase, round: number): Filter => {
+  const toppleOf = db.prepare(
+    "SELECT block_number AS blockNumber, log_index AS logIndex FROM tower_toppled WHERE round = ?",
+  );
+  const from = round > 0 ? (toppleOf.get(round - 1) as { blockNumber: number; logIndex: number } | undefined) : null;
+  if (from === undefined) return { where: "WHERE 0", params: [] };
+  const to = toppleOf.get(round) as { blockNumber: number; logIndex: number } | undefined;
+
+  const bounds = [
+    ...(from ? [{ sql: "(block_number, log_index) > (?, ?)", params: [from.blockNumber, from.logIndex] }] : []),
+    ...(to ? [{ sql: "(block_number, log_index) <= (?, ?)", params: [to.blockNumber, to.logIndex] }] : []),
+  ];
+  if (bounds.length === 0) return NO_FILTER;
+  return {
+    where: `WHERE ${bounds.map(({ sql }) => sql).join(" AND ")}`,
+    params: bounds.flatMap(({ params }) => params),
+  };
+};
+
+/**
+ * Accounts ranked by one of their totals, all-time or within one round. A round only counts the lobsters stacked in
+ * it, the claims made while it stood and its own topple. Accounts without anything to rank by are left out.
+ */
+export const getLeaderboard = (
+  db: TowerDatabase,
+  board: Leaderboard,
+  round: number | undefined,
+  { limit, offset }: Pagination,
+): Page<LeaderboardEntry> => {
+  const ofRound: Filter = round !== undefined ? { where: "WHERE round = ?", params: [round] } : NO_FILTER;
+  const claimFilter = round !== undefined ? claimsDuring(db, round) : NO_FILTER;
+
+  const entries = db.prepare(`SELECT owner, amount FROM lobster_placed ${ofRound.where}`).all(...ofRound.params) as {
+    owner: Address;
+    amount: string;
+  }[];
+  const claims = db
+    .prepare(`SELECT user, amount FROM earnings_claimed ${claimFilter.where}`)
+    .all(...claimFilter.params) as { user: Address; amount: string }[];
+  const topples = db
+    .prepare(`SELECT toppler, pot_won AS potWon FROM tower_toppled ${ofRound.where}`)
+    .all(...ofRound.params) as { toppler: Address; potWon: string }[];
+
+  const ranked = rankLeaderboard(board, {
+    entries: entries.map(({ owner, amount }) => ({ owner, amount: BigInt(amount) })),
+    claims: claims.map(({ user, amount }) => ({ user, amount: BigInt(amount) })),
+    topples: topples.map(({ toppler, potWon }) => ({ toppler, potWon: BigInt(potWon) })),
+  });
+
+  const items = ranked.slice(offset, offset + limit).map(total => ({
+    rank: total.rank,
+    address: total.address,
+    stacked: total.stacked,
+    spent: total.spent.toString(),
+    claimed: total.claimed.toString(),
+    won: total.won.toString(),
+    roi: total.roi,
+  }));
+  return page(items, { limit, offset }, ranked.length);
+};
+
+// ============ Daily stats ============
+
+const DAYS_SQL = `
+  SELECT date(timestamp, 'unixepoch') AS day FROM lobster_placed
+  UNION SELECT date(timestamp, 'unixepoch') FROM tower_toppled
+  UNION SELECT date(timestamp, 'unixepoch') FROM earnings_claimed`;
+
+/** Activity per UTC day, newest day first. Days without any event are skipped. */
+export const getDailyStats = (db: TowerDatabase, { limit, offset }: Pagination): Page<DailyStats> => {
+  const days = db.prepare(`${DAYS_SQL} ORDER BY day DESC LIMIT ? OFFSET ?`).pluck().all(limit, offset) as string[];
+
+  const rowsByDay = <T>(sql: string) => {
+    const rows = db.prepare(sql).all(days[days.length - 1] ?? "", days[0] ?? "") as (T & { day: string })[];
+    return (day: string) => rows.filter(row => row.day === day);
+  };
+  const inRange = "date(timestamp, 'unixepoch') BETWEEN ? AND ?";
+  const entriesOn = rowsByDay<{ owner: string; amount: string }>(
+    `SELECT date(timestamp, 'unixepoch') AS day, owner, amount FROM lobster_placed WHERE ${inRange}`,
+  );
+  const topplesOn = rowsByDay<{ potWon: string }>(
+    `SELECT date(timestamp, 'unixepoch') AS day, pot_won AS potWon FROM tower_toppled WHERE ${inRange}`,
+  );
+  const claimsOn = rowsByDay<{ amount: string }>(
+    `SELECT date(timestamp, 'unixepoch') AS day, amount FROM earnings_claimed WHERE ${inRange}`,
+  );
+
+  const items = days.map(day => {
+    const entries = entriesOn(day);
+    const topples = topplesOn(day);
+    const claims = claimsOn(day);
+    return {
+      day,
+      entries: entries.length,
+      players: new Set(entries.map(entry => entry.owner.toLowerCase())).size,
+      volume: sumAmounts(entries.map(entry => entry.amount)),
+      topples: topples.length,
+      potWon: sumAmounts(topples.map(topple => topple.potWon)),
+      claims: claims.length,
+      claimed: sumAmounts(claims.map(claim => claim.amount)),
+    };
+  });
+
+  return page(items, { limit, offset }, countRows(db, DAYS_SQL));
+};
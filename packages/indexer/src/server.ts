@@ -0,0 +1,26 @@
+import { createApiRoutes } from "./api";
+import { IndexerConfig } from "./config";
+import { TowerDatabase } from "./db";
+import { createGraphqlHandler } from "./graphql";
+import { CORS_HEADERS, createRequestListener } from "./http";
+import { createServer } from "node:http";
+
+export const startServer = (db: TowerDatabase, config: IndexerConfig) => {
+  const rest = createRequestListener(createApiRoutes(db, config));
+  const graphql = createGraphqlHandler(db);
+
+  const server = createServer((req, res) => {
+    if (req.method === "OPTIONS" || !req.url?.match(/^\/graphql\/?(\?|$)/)) return rest(req, res);
+
+    Object.entries(CORS_HEADERS).forEach(([name, value]) => res.setHeader(name, value));
+    graphql(req, res).catch(error => {
+      console.error("❌ /graphql:", error);
+      if (!res.headersSent) res.writeHead(500).end();
+    });
+  });
+
+  server.listen(config.port, () =>
+    console.log(`🌐 Serving the tower API on http://localhost:${config.port} (GraphQL on /graphql)`),
+  );
+  return server;
+};
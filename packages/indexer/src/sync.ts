@@ -0,0 +1,206 @@
+import { IndexerConfig } from "./config";
+import {
+  Checkpoint,
+  TowerDatabase,
+  getAccEarnings,
+  getCheckpoint,
+  getGenesis,
+  getRecentBlocks,
+  insertLog,
+  isTowerEventName,
+  pruneBlocks,
+  resetIndex,
+  rollbackAfter,
+  saveBlockHash,
+  setCheckpoint,
+  setGenesis,
+} from "./db";
+import { lobsterTowerAbi } from "@se-2/sdk";
+import { Client, Hash } from "viem";
+import { getBlock, getBlockNumber, getContractEvents, readContract } from "viem/actions";
+
+export type SyncContext = {
+  client: Client;
+  db: TowerDatabase;
+  config: IndexerConfig;
+};
+
+export type SyncResult =
+  | { status: "synced" | "behind"; blockNumber: bigint }
+  | { status: "reorg"; rolledBackTo: bigint };
+
+const blockHashAt = async (client: Client, blockNumber: bigint) => (await getBlock(client, { blockNumber })).hash;
+
+/**
+ * Walks the stored block hashes from newest to oldest and returns the first one still on the canonical chain.
+ * If none is (the reorg is deeper than `reorgDepth`), falls back to `reorgDepth` blocks before the checkpoint.
+ */
+const findCommonAncestor = async ({ client, db, config }: SyncContext, checkpoint: Checkpoint): Promise<Checkpoint> => {
+  for (const { blockNumber, hash } of getRecentBlocks(db)) {
+    if ((await blockHashAt(client, blockNumber)) === hash) return { blockNumber, blockHash: hash };
+  }
+
+  const depth = BigInt(config.reorgDepth);
+  const fallback = checkpoint.blockNumber > depth ? checkpoint.blockNumber - depth : 0n;
+  const blockNumber = fallback < config.startBlock ? config.startBlock - 1n : fallback;
+  console.warn(`⚠️ No stored block survived the reorg, re-indexing from block ${blockNumber + 1n}`);
+  return { blockNumber, blockHash: await blockHashAt(client, blockNumber) };
+};
+
+const rollback = (ctx: SyncContext, ancestor: Checkpoint) => {
+  const { db, config } = ctx;
+  db.transaction(() => {
+    rollbackAfter(db, ancestor.blockNumber);
+    setCheckpoint(db, config.chain.id, config.towerAddress, ancestor);
+  })();
+};
+
+/**
+ * Stores the constructor's distribution, needed to replay `accEarningsPerLobster` until the first DistributionUpdated.
+ * It's read at the start block, which needs an archive node, unless INDEXER_GENESIS_* sets it. Replaying with a
+ * wrong distribution would serve wrong earnings, so this throws instead of guessing and the indexer doesn't start.
+ */
+export const ensureGenesis = async ({ client, db, config }: SyncContext) => {
+  const stored = getGenesis(db);
+  if (stored) {
+    if (
+      config.genesis &&
+      (config.genesis.participantBps !== stored.participantBps || config.genesis.burnBps !== stored.burnBps)
+    ) {
+      throw new Error(
+        `The database was indexed with a ${stored.participantBps}/${stored.burnBps} genesis distribution, not ` +
+          `${config.genesis.participantBps}/${config.genesis.burnBps}. Point INDEXER_DB_PATH to a new file.`,
+      );
+    }
+    return;
+  }
+  if (config.genesis) {
+    setGenesis(db, config.genesis);
+    return;
+  }
+
+  const [participantBps, burnBps] = await Promise.all(
+    (["participantBps", "burnBps"] as const).map(functionName =>
+      readContract(client, {
+        address: config.towerAddress,
+        abi: lobsterTowerAbi,
+        functionName,
+        blockNumber: config.startBlock,
+      }),
+    ),
+  ).catch(error => {
+    throw new Error(
+      `Can't read the distribution at block ${config.startBlock} (no archive node?). Set ` +
+        "INDEXER_GENESIS_PARTICIPANT_BPS and INDEXER_GENESIS_BURN_BPS to the values the tower was deployed with.",
+      { cause: error },
+    );
+  });
+  setGenesis(db, { participantBps, burnBps });
+};
+
+/** The replayed earnings drifted from the contract's, nothing the indexer serves can be trusted */
+export class AccEarningsMismatchError extends Error {}
+
+/**
+ * Compares the replayed accumulator with the contract's. On a mismatch everything is dropped to be indexed again
+ * from scratch and the error is thrown, since the genesis distribution is most likely wrong.
+ */
+const verifyAccEarnings = async ({ client, db, config }: SyncContext, blockNumber: bigint) => {
+  const onchain = await readContract(client, {
+    address: config.towerAddress,
+    abi: lobsterTowerAbi,
+    functionName: "accEarningsPerLobster",
+    blockNumber,
+  });
+  const replayed = getAccEarnings(db);
+  if (onchain !== replayed) {
+    resetIndex(db);
+    throw new AccEarningsMismatchError(
+      `accEarningsPerLobster at block ${blockNumber} is ${onchain}, replayed ${replayed}. The index was dropped, ` +
+        "check INDEXER_GENESIS_PARTICIPANT_BPS and INDEXER_GENESIS_BURN_BPS before indexing again.",
+    );
+  }
+};
+
+/**
+ * Indexes the next batch of at most `batchSize` blocks after the checkpoint. Each batch is written in a single
+ * transaction together with the new checkpoint, so a crash never leaves a half indexed batch behind and the next run
+ * resumes right after the last committed block.
+ *
+ * Reorgs are detected by comparing the checkpoint's block hash with the chain before every batch. On a mismatch
+ * everything after the newest stored block that is still canonical is dropped and indexed again.
+ */
+export const syncBatch = async (ctx: SyncContext): Promise<SyncResult> => {
+  const { client, db, config } = ctx;
+  const checkpoint = getCheckpoint(db, config.chain.id, config.towerAddress);
+
+  if (checkpoint && (await blockHashAt(client, checkpoint.blockNumber)) !== checkpoint.blockHash) {
+    const ancestor = await findCommonAncestor(ctx, checkpoint);
+    rollback(ctx, ancestor);
+    console.warn(`🔀 Reorg detected at block ${checkpoint.blockNumber}, rolled back to ${ancestor.blockNumber}`);
+    return { status: "reorg", rolledBackTo: ancestor.blockNumber };
+  }
+
+  const fromBlock = checkpoint ? checkpoint.blockNumber + 1n : config.startBlock;
+  const head = await getBlockNumber(client, { cacheTime: 0 });
+  if (fromBlock > head) return { status: "synced", blockNumber: head };
+
+  const toBlock = fromBlock + config.batchSize - 1n < head ? fromBlock + config.batchSize - 1n : head;
+  const toBlockHash = await blockHashAt(client, toBlock);
+
+  const logs = await getContractEvents(client, {
+    address: config.towerAddress,
+    abi: lobsterTowerAbi,
+    fromBlock,
+    toBlock,
+    strict: true,
+  });
+
+  // Every block with logs is fetched for its timestamp, which also proves the logs came from the canonical chain
+  const blockHashes = new Map<bigint, Hash>([[toBlock, toBlockHash]]);
+  const timestamps = new Map<bigint, bigint>();
+  for (const blockNumber of new Set(logs.map(log => log.blockNumber))) {
+    const block = await getBlock(client, { blockNumber });
+    blockHashes.set(blockNumber, block.hash);
+    timestamps.set(blockNumber, block.timestamp);
+  }
+
+  const isStale =
+    logs.some(log => log.blockHash !== blockHashes.get(log.blockNumber)) ||
+    (await blockHashAt(client, toBlock)) !== toBlockHash;
+  if (isStale) {
+    // The chain moved under us while fetching, the next batch sorts it out through the checkpoint hash
+    return { status: "behind", blockNumber: fromBlock - 1n };
+  }
+
+  db.transaction(() => {
+    logs.forEach(log => {
+      if (!isTowerEventName(log.eventName)) return;
+      insertLog(db, {
+        eventName: log.eventName,
+        args: log.args as Record<string, unknown>,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+      });
+    });
+
+    // Only blocks that could still be reorged out are worth remembering
+    const reorgFloor = head - BigInt(config.reorgDepth);
+    blockHashes.forEach((hash, blockNumber) => {
+      if (blockNumber >= reorgFloor) saveBlockHash(db, blockNumber, hash);
+    });
+    pruneBlocks(db, reorgFloor);
+
+    setCheckpoint(db, config.chain.id, config.towerAddress, { blockNumber: toBlock, blockHash: toBlockHash });
+  })();
+
+  if (logs.length > 0) console.log(`📦 Indexed ${logs.length} event(s) in blocks ${fromBlock}-${toBlock}`);
+
+  const status = toBlock >= head ? "synced" : "behind";
+  if (status === "synced" && logs.some(log => log.eventName === "LobsterPlaced")) {
+    await verifyAccEarnings(ctx, toBlock);
+  }
+  return { status, blockNumber: toBlock };
+};
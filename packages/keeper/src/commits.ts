@@ -0,0 +1,77 @@
+import { KeeperConfig } from "./config";
+import { metrics } from "./metrics";
+import { lobsterTowerAbi } from "@se-2/sdk";
+import { Account, Chain, Client, Transport, WalletClient } from "viem";
+import { getBlockNumber, getContractEvents, readContract } from "viem/actions";
+
+export type KeeperState = {
+  /** Last block scanned for LobsterPlaced, the block before `startBlock` until the first scan */
+  scannedBlock: bigint;
+  /** Commit block of every commit seen that wasn't found revealed or expired yet, by position id */
+  pending: Map<bigint, bigint>;
+  /** Tracked commits a dry run already reported as expirable, which stay pending since nothing expired them */
+  wouldExpire: Set<bigint>;
+  revealWindow?: bigint;
+  hasMulticall?: boolean;
+};
+
+export type KeeperContext = {
+  client: Client;
+  /** Undefined in dry-run mode without a key */
+  walletClient?: WalletClient<Transport, Chain, Account>;
+  config: KeeperConfig;
+  state: KeeperState;
+};
+
+export type ScanResult = { status: "synced" | "behind"; head: bigint };
+
+export const createKeeperState = (config: KeeperConfig): KeeperState => ({
+  scannedBlock: config.startBlock - 1n,
+  pending: new Map(),
+  wouldExpire: new Set(),
+});
+
+/**
+ * Tracks the commit of every lobster placed in the next `logBatchSize` blocks. Commits never need acting on before
+ * `REVEAL_WINDOW` blocks have passed, so a reorg that moves or drops one is caught by the on-chain check right before
+ * expiring it rather than here.
+ */
+export const scanCommits = async ({ client, config, state }: KeeperContext): Promise<ScanResult> => {
+  state.revealWindow ??= await readContract(client, {
+    address: config.towerAddress,
+    abi: lobsterTowerAbi,
+    functionName: "REVEAL_WINDOW",
+  });
+
+  const head = await getBlockNumber(client, { cacheTime: 0 });
+  metrics.headBlock.set(Number(head));
+  const fromBlock = state.scannedBlock + 1n;
+  if (fromBlock > head) return { status: "synced", head };
+
+  const toBlock = fromBlock + config.logBatchSize - 1n < head ? fromBlock + config.logBatchSize - 1n : head;
+  const logs = await getContractEvents(client, {
+    address: config.towerAddress,
+    abi: lobsterTowerAbi,
+    eventName: "LobsterPlaced",
+    fromBlock,
+    toBlock,
+    strict: true,
+  });
+
+  for (const log of logs) state.pending.set(log.args.positionId, log.blockNumber);
+  metrics.commitsTracked.inc(logs.length);
+  state.scannedBlock = toBlock;
+  metrics.lastScannedBlock.set(Number(toBlock));
+  metrics.pendingCommits.set(state.pending.size);
+
+  return { status: toBlock < head ? "behind" : "synced", head };
+};
+
+/** Tracked commits whose reveal window has passed by `head` and that no dry run reported yet, oldest first */
+export const getDueCommits = ({ state }: KeeperContext, head: bigint) =>
+  [...state.pending]
+    .filter(
+      ([positionId, commitBlock]) => head > commitBlock + state.revealWindow! && !state.wouldExpire.has(positionId),
+    )
+    .sort(([, a], [, b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([positionId]) => positionId);
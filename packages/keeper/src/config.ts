@@ -0,0 +1,66 @@
+import "dotenv/config";
+import { getLobsterTowerDeployment } from "@se-2/sdk";
+import { Address, Chain, Hex, getAddress, parseGwei } from "viem";
+import * as chains from "viem/chains";
+
+export type KeeperConfig = {
+  chain: Chain;
+  rpcUrl: string;
+  towerAddress: Address;
+  startBlock: bigint;
+  /** Signs the expireCommit transactions. Only optional in dry-run mode */
+  privateKey?: Hex;
+  /** Log and simulate what would be expired without sending anything */
+  dryRun: boolean;
+  /** Nothing is sent while the network's gas price is above this */
+  maxGasPrice?: bigint;
+  /** Commits expired per transaction through Multicall3. 1 sends one expireCommit transaction per commit */
+  batchSize: number;
+  multicallAddress: Address;
+  /** Max blocks per `eth_getLogs` request */
+  logBatchSize: bigint;
+  pollingInterval: number;
+  metricsPort: number;
+};
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`${name} must be a non-negative integer`);
+  return parsed;
+};
+
+export const loadConfig = (): KeeperConfig => {
+  const chainId = numberFromEnv("KEEPER_CHAIN_ID", chains.base.id);
+  const chain = Object.values(chains).find(c => c.id === chainId);
+  if (!chain) throw new Error(`Unknown chain ${chainId}`);
+
+  const deployment = process.env.KEEPER_TOWER_ADDRESS ? undefined : getLobsterTowerDeployment(chainId);
+
+  const dryRun = process.env.KEEPER_DRY_RUN === "true";
+  const privateKey = process.env.KEEPER_PRIVATE_KEY as Hex | undefined;
+  if (!dryRun && !privateKey) throw new Error("KEEPER_PRIVATE_KEY is required unless KEEPER_DRY_RUN=true");
+
+  const batchSize = numberFromEnv("KEEPER_BATCH_SIZE", 1);
+  if (batchSize < 1) throw new Error("KEEPER_BATCH_SIZE must be at least 1");
+
+  return {
+    chain,
+    rpcUrl: process.env.KEEPER_RPC_URL || chain.rpcUrls.default.http[0],
+    towerAddress: getAddress(process.env.KEEPER_TOWER_ADDRESS || deployment!.address),
+    startBlock: BigInt(numberFromEnv("KEEPER_START_BLOCK", deployment?.deployedOnBlock ?? 0)),
+    privateKey: privateKey || undefined,
+    dryRun,
+    maxGasPrice: process.env.KEEPER_MAX_GAS_PRICE_GWEI ? parseGwei(process.env.KEEPER_MAX_GAS_PRICE_GWEI) : undefined,
+    batchSize,
+    multicallAddress: getAddress(
+      process.env.KEEPER_MULTICALL_ADDRESS ||
+        (chain.contracts && "multicall3" in chain.contracts ? chain.contracts.multicall3?.address : undefined) ||
+        "0xcA11bde05977b3631167028862bE2a173976CA11",
+    ),
+    logBatchSize: BigInt(numberFromEnv("KEEPER_LOG_BATCH_SIZE", 500)),
+    pollingInterval: numberFromEnv("KEEPER_POLLING_INTERVAL", 3000),
+    metricsPort: numberFromEnv("KEEPER_METRICS_PORT", 9464),
+  };
+};
@@ -0,0 +1,115 @@
+import { KeeperContext, createKeeperState, scanCommits } from "./commits";
+import type { KeeperConfig } from "./config";
+import { expireDueCommits } from "./expire";
+import { renderMetrics } from "./metrics";
+import { LobsterTowerClient, getLobsterTowerDeployment, lobsterTowerAbi } from "@se-2/sdk";
+import assert from "node:assert/strict";
+import { Hex, createPublicClient, createTestClient, createWalletClient, getAddress, http, parseAbi } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+
+const RPC_URL = process.env.KEEPER_RPC_URL || "http://127.0.0.1:8545";
+// anvil's first two dev accounts
+const KEEPER_KEY: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const PLAYER_KEY: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+const mockClawdAbi = parseAbi(["function mint(address to, uint256 amount)"]);
+
+const towerAddress = getAddress(process.env.KEEPER_TOWER_ADDRESS || getLobsterTowerDeployment(foundry.id).address);
+const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+const testClient = createTestClient({ chain: foundry, mode: "anvil", transport: http(RPC_URL) });
+const walletClient = (key: Hex) =>
+  createWalletClient({ account: privateKeyToAccount(key), chain: foundry, transport: http(RPC_URL) });
+
+const keeperContext = (dryRun: boolean, startBlock: bigint): KeeperContext => {
+  const config: KeeperConfig = {
+    chain: foundry,
+    rpcUrl: RPC_URL,
+    towerAddress,
+    startBlock,
+    privateKey: dryRun ? undefined : KEEPER_KEY,
+    dryRun,
+    batchSize: 1,
+    multicallAddress: "0xcA11bde05977b3631167028862bE2a173976CA11",
+    logBatchSize: 500n,
+    pollingInterval: 0,
+    metricsPort: 0,
+  };
+  return {
+    client: publicClient,
+    walletClient: dryRun ? undefined : walletClient(KEEPER_KEY),
+    config,
+    state: createKeeperState(config),
+  };
+};
+
+/** One pass of the keeper's loop: scan up to the head, then expire what's due */
+const keeperRound = async (ctx: KeeperContext) => {
+  let scan = await scanCommits(ctx);
+  while (scan.status === "behind") scan = await scanCommits(ctx);
+  return expireDueCommits(ctx, scan.head);
+};
+
+const metricValue = (name: string) => Number(renderMetrics().match(new RegExp(`^${name} (\\d+)$`, "m"))?.[1]);
+
+/**
+ * End-to-end check of the keeper against a local chain with LobsterTower deployed (`yarn chain` and `yarn deploy`):
+ * enters without ever revealing, mines past the reveal window, then runs one dry-run and one live keeper round and
+ * reads the commit back with `getCommitInfo` after each.
+ */
+const main = async () => {
+  const player = walletClient(PLAYER_KEY);
+  const tower = new LobsterTowerClient({ publicClient, walletClient: player, address: towerAddress });
+
+  const read = <T extends "clawdToken" | "entryCost" | "REVEAL_WINDOW">(functionName: T) =>
+    publicClient.readContract({ address: towerAddress, abi: lobsterTowerAbi, functionName });
+  const [clawdToken, entryCost, revealWindow] = await Promise.all([
+    read("clawdToken"),
+    read("entryCost"),
+    read("REVEAL_WINDOW"),
+  ]);
+  // MockCLAWD mints to anyone
+  const mint = await player.writeContract({
+    address: clawdToken,
+    abi: mockClawdAbi,
+    functionName: "mint",
+    args: [player.account.address, entryCost],
+  });
+  await publicClient.waitForTransactionReceipt({ hash: mint });
+
+  const { positionId } = await tower.enter();
+  const { commitBlock } = await tower.getCommitInfo(positionId);
+  console.log(`🦞 Entered position ${positionId} at block ${commitBlock} and never revealed`);
+
+  await testClient.mine({ blocks: Number(revealWindow) + 1 });
+  let info = await tower.getCommitInfo(positionId);
+  assert.ok(info.expired && !info.revealed, "the commit should read as expired past the reveal window");
+
+  const dryRun = keeperContext(true, commitBlock);
+  const reported = await keeperRound(dryRun);
+  assert.ok(reported.status === "expired" && reported.positionIds.includes(positionId), "a dry run should report it");
+  info = await tower.getCommitInfo(positionId);
+  assert.ok(info.expired && !info.revealed, "a dry run must not expire anything");
+  assert.ok(dryRun.state.pending.has(positionId), "a dry run must leave the commit pending");
+  assert.equal(metricValue("keeper_commits_would_expire_total"), 1);
+  assert.equal(metricValue("keeper_commits_expired_total"), 0);
+  assert.deepEqual(await keeperRound(dryRun), { status: "idle" }, "a dry run should report each commit once");
+  console.log("🧪 Dry run reported it once and left it pending");
+
+  const live = keeperContext(false, commitBlock);
+  const expired = await keeperRound(live);
+  assert.ok(expired.status === "expired" && expired.positionIds.includes(positionId), "the keeper should expire it");
+  const { transactionHash } = expired;
+  info = await tower.getCommitInfo(positionId);
+  assert.ok(info.revealed && !info.expired, "getCommitInfo should read the commit as settled");
+  assert.ok(!live.state.pending.has(positionId), "an expired commit should stop being tracked");
+  assert.equal(metricValue("keeper_commits_expired_total"), 1);
+  console.log(`🧹 Keeper expired it in ${transactionHash}`);
+
+  console.log("✅ Keeper e2e passed");
+};
+
+main().catch(error => {
+  console.error("❌ Keeper e2e failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
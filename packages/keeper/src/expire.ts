@@ -0,0 +1,140 @@
+import { KeeperContext, getDueCommits } from "./commits";
+import { metrics } from "./metrics";
+import { lobsterTowerAbi } from "@se-2/sdk";
+import { Hash, decodeFunctionResult, encodeFunctionData, formatGwei, multicall3Abi } from "viem";
+import { call, getCode, getGasPrice, readContract, waitForTransactionReceipt } from "viem/actions";
+
+export type ExpireResult =
+  | { status: "idle" | "gas-ceiling" }
+  | { status: "expired"; positionIds: bigint[]; transactionHash?: Hash; remaining: number };
+
+/**
+ * Re-reads each candidate's commit and keeps those the contract reports as expired. Commits revealed meanwhile (or
+ * expired by someone else) stop being tracked, and a commit a reorg moved to a later block is tracked from there.
+ */
+const confirmExpired = async ({ client, config, state }: KeeperContext, positionIds: bigint[]) => {
+  const infos = await Promise.all(
+    positionIds.map(positionId =>
+      readContract(client, {
+        address: config.towerAddress,
+        abi: lobsterTowerAbi,
+        functionName: "getCommitInfo",
+        args: [positionId],
+      }),
+    ),
+  );
+
+  const expired: bigint[] = [];
+  infos.forEach(([commitHash, commitBlock, , revealed, isExpired], i) => {
+    const positionId = positionIds[i];
+    if (isExpired) {
+      expired.push(positionId);
+    } else if (revealed || BigInt(commitHash) === 0n) {
+      state.pending.delete(positionId);
+      metrics.commitsSkipped.inc();
+    } else {
+      state.pending.set(positionId, commitBlock);
+    }
+  });
+  return expired;
+};
+
+const isMulticallDeployed = async ({ client, config, state }: KeeperContext) => {
+  if (state.hasMulticall === undefined) {
+    const code = await getCode(client, { address: config.multicallAddress });
+    state.hasMulticall = !!code && code !== "0x";
+    if (!state.hasMulticall) {
+      console.warn(`⚠️ No Multicall3 at ${config.multicallAddress}, sending one expireCommit per transaction`);
+    }
+  }
+  return state.hasMulticall;
+};
+
+/**
+ * Simulates expiring `positionIds`, through Multicall3's aggregate3 when there are several so one commit that can't
+ * be expired doesn't revert the others. Returns the positions that would be expired and the transaction to send.
+ */
+const simulateExpiry = async (ctx: KeeperContext, positionIds: bigint[]) => {
+  const { client, walletClient, config } = ctx;
+  const account = walletClient?.account;
+
+  if (positionIds.length === 1 || !(await isMulticallDeployed(ctx))) {
+    const [positionId] = positionIds;
+    const transaction = {
+      to: config.towerAddress,
+      data: encodeFunctionData({ abi: lobsterTowerAbi, functionName: "expireCommit", args: [positionId] }),
+    };
+    await call(client, { account, ...transaction });
+    return { positionIds: [positionId], transaction };
+  }
+
+  const transaction = {
+    to: config.multicallAddress,
+    data: encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: "aggregate3",
+      args: [
+        positionIds.map(positionId => ({
+          target: config.towerAddress,
+          allowFailure: true,
+          callData: encodeFunctionData({ abi: lobsterTowerAbi, functionName: "expireCommit", args: [positionId] }),
+        })),
+      ],
+    }),
+  };
+  const { data } = await call(client, { account, ...transaction });
+  const results = decodeFunctionResult({ abi: multicall3Abi, functionName: "aggregate3", data: data! });
+  return { positionIds: positionIds.filter((_, i) => results[i].success), transaction };
+};
+
+/**
+ * Expires up to `batchSize` commits whose reveal window has passed, in one transaction. Nothing is sent while the gas
+ * price is above `maxGasPrice`, and in dry-run mode the transaction is only simulated.
+ */
+export const expireDueCommits = async (ctx: KeeperContext, head: bigint): Promise<ExpireResult> => {
+  const { client, walletClient, config, state } = ctx;
+  const due = getDueCommits(ctx, head);
+  metrics.dueCommits.set(due.length);
+  if (due.length === 0) return { status: "idle" };
+
+  const gasPrice = await getGasPrice(client);
+  metrics.gasPrice.set(Number(gasPrice));
+  if (config.maxGasPrice !== undefined && gasPrice > config.maxGasPrice) {
+    metrics.gasCeilingSkips.inc();
+    console.warn(
+      `⛽ Gas price ${formatGwei(gasPrice)} gwei is above the ${formatGwei(config.maxGasPrice)} gwei ceiling, ` +
+        `holding ${due.length} commit(s)`,
+    );
+    return { status: "gas-ceiling" };
+  }
+
+  const candidates = await confirmExpired(ctx, due.slice(0, config.batchSize));
+  const remaining = () => getDueCommits(ctx, head).length;
+  if (candidates.length === 0) return { status: "expired", positionIds: [], remaining: remaining() };
+
+  const { positionIds, transaction } = await simulateExpiry(ctx, candidates);
+  if (positionIds.length === 0) return { status: "expired", positionIds, remaining: remaining() };
+
+  // Nothing changes on chain, so the commits stay pending and are only set aside to be reported once
+  if (config.dryRun) {
+    console.log(`🧪 Would expire position(s) ${positionIds.join(", ")}`);
+    for (const positionId of positionIds) state.wouldExpire.add(positionId);
+    metrics.commitsWouldExpire.inc(positionIds.length);
+    return { status: "expired", positionIds, remaining: remaining() };
+  }
+
+  const transactionHash = await walletClient!.sendTransaction(transaction);
+  metrics.transactionsSent.inc();
+  const receipt = await waitForTransactionReceipt(client, { hash: transactionHash });
+  metrics.gasSpent.inc(Number(receipt.gasUsed * receipt.effectiveGasPrice));
+  if (receipt.status === "reverted") {
+    metrics.transactionsFailed.inc();
+    throw new Error(`Expiry transaction ${transactionHash} reverted`);
+  }
+
+  console.log(`🧹 Expired position(s) ${positionIds.join(", ")} in ${transactionHash}`);
+  for (const positionId of positionIds) state.pending.delete(positionId);
+  metrics.commitsExpired.inc(positionIds.length);
+  metrics.pendingCommits.set(state.pending.size);
+  return { status: "expired", positionIds, transactionHash, remaining: remaining() };
+};
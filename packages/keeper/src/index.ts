@@ -0,0 +1,62 @@
+import { KeeperContext, createKeeperState, scanCommits } from "./commits";
+import { loadConfig } from "./config";
+import { expireDueCommits } from "./expire";
+import { metrics, startMetricsServer } from "./metrics";
+import { createPublicClient, createWalletClient, formatGwei, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+const config = loadConfig();
+const client = createPublicClient({ chain: config.chain, transport: http(config.rpcUrl) });
+const walletClient = config.privateKey
+  ? createWalletClient({
+      account: privateKeyToAccount(config.privateKey),
+      chain: config.chain,
+      transport: http(config.rpcUrl),
+    })
+  : undefined;
+const ctx: KeeperContext = { client, walletClient, config, state: createKeeperState(config) };
+
+console.log(
+  `🦞 Keeping LobsterTower ${config.towerAddress} on ${config.chain.name} from block ${config.startBlock}` +
+    (walletClient ? ` as ${walletClient.account.address}` : ""),
+);
+console.log(
+  `   ${config.dryRun ? "Dry run, nothing is sent" : "Live"}, up to ${config.batchSize} commit(s) per transaction` +
+    (config.maxGasPrice !== undefined ? `, gas ceiling ${formatGwei(config.maxGasPrice)} gwei` : ""),
+);
+metrics.dryRun.set(config.dryRun ? 1 : 0);
+
+const server = startMetricsServer(config.metricsPort);
+let timeout: NodeJS.Timeout | undefined;
+let stopped = false;
+
+const loop = async () => {
+  let delay = config.pollingInterval;
+  try {
+    const scan = await scanCommits(ctx);
+    if (scan.status === "behind") {
+      // Keep scanning right away while catching up, commits are expired once the scan reaches the head
+      delay = 0;
+    } else {
+      const result = await expireDueCommits(ctx, scan.head);
+      // Keep expiring right away while a backlog is left, wait for new blocks otherwise
+      if (result.status === "expired" && result.positionIds.length > 0 && result.remaining > 0) delay = 0;
+    }
+  } catch (error) {
+    metrics.errors.inc();
+    console.error("❌ Keeper round failed, retrying:", error instanceof Error ? error.message : error);
+  }
+  if (!stopped) timeout = setTimeout(loop, delay);
+};
+
+const stop = () => {
+  stopped = true;
+  clearTimeout(timeout);
+  server.close();
+  process.exit(0);
+};
+
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+loop();
@@ -0,0 +1,55 @@
+import { Server, createServer } from "node:http";
+
+type Metric = { name: string; help: string; type: "counter" | "gauge"; value: number };
+
+const registry: Metric[] = [];
+
+const metric = (type: Metric["type"]) => (name: string, help: string) => {
+  const m: Metric = { name, help, type, value: 0 };
+  registry.push(m);
+  return {
+    inc: (by = 1) => void (m.value += by),
+    set: (value: number) => void (m.value = value),
+  };
+};
+
+const counter = metric("counter");
+const gauge = metric("gauge");
+
+export const metrics = {
+  lastScannedBlock: gauge("keeper_last_scanned_block", "Last block scanned for LobsterPlaced events"),
+  headBlock: gauge("keeper_head_block", "Latest block number seen on the chain"),
+  pendingCommits: gauge("keeper_pending_commits", "Tracked commits that are neither revealed nor expired yet"),
+  dueCommits: gauge("keeper_due_commits", "Tracked commits past their reveal window, waiting to be expired"),
+  gasPrice: gauge("keeper_gas_price_wei", "Gas price seen at the last expiry attempt"),
+  dryRun: gauge("keeper_dry_run", "1 when the keeper only simulates its transactions"),
+  commitsTracked: counter("keeper_commits_tracked_total", "Commits picked up from LobsterPlaced events"),
+  commitsExpired: counter("keeper_commits_expired_total", "Commits expired by the keeper"),
+  commitsWouldExpire: counter(
+    "keeper_commits_would_expire_total",
+    "Commits a dry run found expirable, each counted once",
+  ),
+  commitsSkipped: counter("keeper_commits_skipped_total", "Due commits already revealed or expired by someone else"),
+  transactionsSent: counter("keeper_transactions_sent_total", "expireCommit and Multicall3 transactions sent"),
+  transactionsFailed: counter("keeper_transactions_failed_total", "Keeper transactions that failed or reverted"),
+  gasCeilingSkips: counter("keeper_gas_ceiling_skips_total", "Expiry rounds skipped because gas was above the ceiling"),
+  gasSpent: counter("keeper_gas_spent_wei_total", "Wei spent on gas by keeper transactions"),
+  errors: counter("keeper_errors_total", "Keeper loop iterations that threw"),
+};
+
+/** The registry in Prometheus' text exposition format */
+export const renderMetrics = () =>
+  registry.map(m => `# HELP ${m.name} ${m.help}\n# TYPE ${m.name} ${m.type}\n${m.name} ${m.value}\n`).join("");
+
+/** Serves `GET /metrics` for Prometheus to scrape */
+export const startMetricsServer = (port: number): Server => {
+  const server = createServer((req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" }).end(renderMetrics());
+  });
+  server.listen(port, () => console.log(`📈 Metrics on http://localhost:${port}/metrics`));
+  return server;
+};
@@ -0,0 +1,73 @@
+"use client";
+
+import Link from "next/link";
+import { formatUnits } from "viem";
+import { ApprovalStrategy, DEFAULT_APPROVAL_ENTRIES, getApprovalAmount } from "~~/utils/lobster-tower/approval";
+import { formatClawdFull } from "~~/utils/lobster-tower/format";
+
+const OPTIONS: { kind: ApprovalStrategy["kind"]; label: string }[] = [
+  { kind: "exact", label: "One entry" },
+  { kind: "entries", label: "Several entries" },
+  { kind: "custom", label: "Custom cap" },
+];
+
+const strategyOf = (kind: ApprovalStrategy["kind"], entryCost: bigint | undefined): ApprovalStrategy => {
+  if (kind === "entries") return { kind, entries: DEFAULT_APPROVAL_ENTRIES };
+  if (kind === "custom") return { kind, amount: entryCost ? formatUnits(entryCost, 18) : "" };
+  return { kind };
+};
+
+/**
+ * How much CLAWD the next approval grants: one entry at a time, a number of entries, or a custom cap.
+ */
+export const ApprovalStrategyPicker = ({
+  strategy,
+  onChange,
+  entryCost,
+}: {
+  strategy: ApprovalStrategy;
+  onChange: (strategy: ApprovalStrategy) => void;
+  entryCost: bigint | undefined;
+}) => {
+  return (
+    <div className="approval-strategy">
+      <label>
+        <span>Approve</span>
+        <select
+          value={strategy.kind}
+          onChange={e => onChange(strategyOf(e.target.value as ApprovalStrategy["kind"], entryCost))}
+        >
+          {OPTIONS.map(({ kind, label }) => (
+            <option key={kind} value={kind}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {strategy.kind === "entries" && (
+        <input
+          type="number"
+          min="1"
+          step="1"
+          value={strategy.entries}
+          onChange={e => onChange({ kind: "entries", entries: Number(e.target.value) })}
+          aria-label="Entries to approve"
+        />
+      )}
+      {strategy.kind === "custom" && (
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={strategy.amount}
+          onChange={e => onChange({ kind: "custom", amount: e.target.value })}
+          aria-label="CLAWD to approve"
+        />
+      )}
+      {entryCost !== undefined && <span>= {formatClawdFull(getApprovalAmount(strategy, entryCost))} CLAWD</span>}
+      <Link href="/allowances" className="approval-strategy-link">
+        Manage allowances →
+      </Link>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+"use client";
+
+import { BulkEntry as BulkEntryState, BulkEntryStatus, MAX_BULK_ENTRIES } from "~~/hooks/lobster-tower";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+
+const STATUS_LABELS: Record<BulkEntryStatus, string> = {
+  signing: "Signing reveal...",
+  ready: "Reveal ready",
+  submitted: "Submitted",
+  placed: "Placed",
+  failed: "Failed",
+};
+
+/**
+ * How many lobsters the next entry stacks, from one up to MAX_BULK_ENTRIES.
+ */
+export const EntryQuantityPicker = ({
+  quantity,
+  onChange,
+  disabled,
+}: {
+  quantity: number;
+  onChange: (quantity: number) => void;
+  disabled: boolean;
+}) => {
+  return (
+    <div className="entry-quantity">
+      <span>Lobsters</span>
+      <button disabled={disabled || quantity <= 1} onClick={() => onChange(quantity - 1)} aria-label="One less">
+        −
+      </button>
+      <span className="entry-quantity-value">{quantity}</span>
+      <button
+        disabled={disabled || quantity >= MAX_BULK_ENTRIES}
+        onClick={() => onChange(quantity + 1)}
+        aria-label="One more"
+      >
+        +
+      </button>
+    </div>
+  );
+};
+
+/**
+ * One row per lobster of a bulk entry, from signing its reveal to its placed position.
+ */
+export const BulkEntryProgress = ({ entries, onDismiss }: { entries: BulkEntryState[]; onDismiss?: () => void }) => {
+  const { targetNetwork } = useTargetNetwork();
+
+  return (
+    <div className="bulk-progress">
+      {entries.map((entry, i) => {
+        // Local chains have no explorer to link to
+        const txLink = entry.transactionHash ? getBlockExplorerTxLink(targetNetwork.id, entry.transactionHash) : "";
+        return (
+          <div key={i} className={`bulk-progress-row bulk-${entry.status}`}>
+            <span>🦞 {i + 1}</span>
+            <span>
+              {entry.status === "placed" && entry.positionId !== undefined
+                ? `Lobster #${entry.positionId}`
+                : STATUS_LABELS[entry.status]}
+            </span>
+            {txLink ? (
+              <a href={txLink} target="_blank" rel="noreferrer">
+                tx ↗
+              </a>
+            ) : (
+              <span />
+            )}
+          </div>
+        );
+      })}
+      {onDismiss && (
+        <button className="bulk-progress-dismiss" onClick={onDismiss}>
+          Dismiss
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import { useEntryRate, useTowerParameters } from "~~/hooks/lobster-tower";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { EntryScenario, estimateEntry } from "~~/utils/lobster-tower/ev";
+
+type Field = keyof EntryScenario;
+
+const FIELDS: { field: Field; label: string; step: string }[] = [
+  { field: "height", label: "Tower height", step: "1" },
+  { field: "pot", label: "Pot (CLAWD)", step: "any" },
+  { field: "entryCost", label: "Entry cost (CLAWD)", step: "any" },
+  { field: "participantBps", label: "To lobsters (bps)", step: "1" },
+  { field: "burnBps", label: "Burned (bps)", step: "1" },
+  { field: "toppleModulo", label: "Topple odds (1 in)", step: "1" },
+  { field: "entriesPerHour", label: "Entries per hour", step: "any" },
+];
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 10 ? 2 : 0 });
+
+const formatUsdAmount = (value: number, price: number | null) =>
+  price && Math.abs(value * price) >= 0.01 ? `(~$${(value * price).toFixed(2)})` : "";
+
+const formatHours = (hours: number | null) => {
+  if (hours === null || !Number.isFinite(hours)) return "";
+  if (hours < 1) return ` (~${Math.round(hours * 60)} min)`;
+  if (hours < 48) return ` (~${hours.toFixed(1)} h)`;
+  return ` (~${(hours / 24).toFixed(1)} days)`;
+};
+
+/**
+ * What a new lobster is worth: expected earnings until the next topple, the pot lottery and breakeven, from the live
+ * tower state. Every input can be overridden to explore other scenarios.
+ */
+export const EvCalculator = ({ clawdPrice }: { clawdPrice: number | null }) => {
+  const { data: towerStats } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "getTowerStats",
+  });
+  const towerParameters = useTowerParameters();
+  const entriesPerHour = useEntryRate();
+
+  const [overrides, setOverrides] = useState<Partial<Record<Field, string>>>({});
+
+  const live = useMemo(
+    (): Partial<EntryScenario> => ({
+      height: towerStats && Number(towerStats[0]),
+      pot: towerStats && Number(formatUnits(towerStats[2], 18)),
+      entryCost: towerParameters && Number(formatUnits(towerParameters.entryCost, 18)),
+      participantBps: towerParameters && Number(towerParameters.participantBps),
+      burnBps: towerParameters && Number(towerParameters.burnBps),
+      toppleModulo: towerParameters && Number(towerParameters.toppleModulo),
+      entriesPerHour: entriesPerHour !== undefined ? Number(entriesPerHour.toFixed(2)) : undefined,
+    }),
+    [towerStats, towerParameters, entriesPerHour],
+  );
+
+  const valueOf = (field: Field) => overrides[field] ?? live[field]?.toString() ?? "";
+
+  const scenario = Object.fromEntries(FIELDS.map(({ field }) => [field, Number(valueOf(field))])) as EntryScenario;
+  const isComplete = FIELDS.every(({ field }) => valueOf(field) !== "" && Number.isFinite(scenario[field]));
+  const estimate = isComplete ? estimateEntry(scenario) : undefined;
+
+  return (
+    <div className="panel ev-panel">
+      <h2 className="section-title">What&apos;s a Lobster Worth? 🧮</h2>
+
+      <div className="ev-inputs">
+        {FIELDS.map(({ field, label, step }) => (
+          <label key={field} className={`ev-input ${overrides[field] !== undefined ? "ev-input-edited" : ""}`}>
+            <span>{label}</span>
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={valueOf(field)}
+              onChange={e => setOverrides({ ...overrides, [field]: e.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+      {Object.keys(overrides).length > 0 && (
+        <button className="ev-reset" onClick={() => setOverrides({})}>
+          Reset to live values
+        </button>
+      )}
+
+      {estimate ? (
+        <div className="ev-results">
+          <div className="ev-row">
+            <span>Chance your lobster topples it</span>
+            <span>
+              1 in {scenario.toppleModulo} ({(estimate.toppleChance * 100).toFixed(2)}%)
+            </span>
+          </div>
+          <div className="ev-row">
+            <span>Expected earnings before the next topple</span>
+            <span>
+              {formatAmount(estimate.expectedEarnings)} CLAWD {formatUsdAmount(estimate.expectedEarnings, clawdPrice)}
+            </span>
+          </div>
+          <div className="ev-row">
+            <span>Pot lottery EV</span>
+            <span>
+              {formatAmount(estimate.lotteryEv)} CLAWD {formatUsdAmount(estimate.lotteryEv, clawdPrice)}
+            </span>
+          </div>
+          <div className={`ev-row ev-net ${estimate.netEv < 0 ? "ev-negative" : ""}`}>
+            <span>Net EV per entry</span>
+            <span>
+              {estimate.netEv >= 0 ? "+" : ""}
+              {formatAmount(estimate.netEv)} CLAWD {formatUsdAmount(estimate.netEv, clawdPrice)}
+            </span>
+          </div>
+          <div className="ev-row">
+            <span>Breakeven from earnings</span>
+            <span>
+              {estimate.breakevenEntries === null
+                ? "never"
+                : `${estimate.breakevenEntries.toLocaleString()} more entries${formatHours(estimate.hoursToBreakeven)}`}
+            </span>
+          </div>
+          {estimate.breakevenChance !== null && (
+            <div className="ev-row ev-detail">
+              <span>Chance the tower lasts that long</span>
+              <span>{(estimate.breakevenChance * 100).toFixed(1)}%</span>
+            </div>
+          )}
+          <div className="ev-row ev-detail">
+            <span>Tower stands for another</span>
+            <span>
+              ~{Math.round(estimate.expectedEntriesBeforeTopple).toLocaleString()} entries
+              {formatHours(estimate.hoursUntilTopple)}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <p className="no-activity">
+          <span className="spinner" /> Loading tower state...
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import Link from "next/link";
+
+type PagerProps = {
+  page: number;
+  pageSize: number;
+  total: number;
+  /** Link to the given 1-based page */
+  hrefFor: (page: number) => string;
+};
+
+export const Pager = ({ page, pageSize, total, hrefFor }: PagerProps) => {
+  const pageCount = Math.ceil(total / pageSize);
+  if (pageCount <= 1) return null;
+
+  return (
+    <div className="pager">
+      {page > 1 ? <Link href={hrefFor(page - 1)}>← Previous</Link> : <span />}
+      <span>
+        Page {page} of {pageCount}
+      </span>
+      {page < pageCount ? <Link href={hrefFor(page + 1)}>Next →</Link> : <span />}
+    </div>
+  );
+};
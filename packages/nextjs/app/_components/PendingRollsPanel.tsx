@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Hex } from "viem";
+import { PendingReveal, ToppleCheck, useTowerParameters } from "~~/hooks/lobster-tower";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { formatClawdFull, formatUsd } from "~~/utils/lobster-tower/format";
+
+const DEFAULT_REVEAL_WINDOW = 255;
+const DEFAULT_BLOCK_TIME_MS = 2_000;
+
+type PendingRollsPanelProps = {
+  liveReveals: PendingReveal[];
+  toppleChecks: ToppleCheck[];
+  missingRevealIds: readonly bigint[];
+  pot: bigint;
+  clawdPrice: number | null;
+  topplingPositionId: bigint | null;
+  recoveringPositionId: bigint | null;
+  onTopple: (positionId: bigint, reveal: Hex) => void;
+  onRecover: (positionId: bigint) => void;
+  /** False when the wallet's signatures aren't deterministic, so signing again can't re-derive a reveal */
+  canRecover: boolean;
+};
+
+/**
+ * Ticks down between blocks so the remaining time stays live even though `blocksRemaining` only changes per block.
+ */
+const RollCountdown = ({
+  blocksLeft,
+  revealWindow,
+  blockTimeMs,
+}: {
+  blocksLeft: number;
+  revealWindow: number;
+  blockTimeMs: number;
+}) => {
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    setElapsed(0);
+    const interval = setInterval(() => setElapsed(e => e + 1), 1000);
+    return () => clearInterval(interval);
+  }, [blocksLeft]);
+
+  const secondsLeft = Math.max(0, Math.round((blocksLeft * blockTimeMs) / 1000) - elapsed);
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = (secondsLeft % 60).toString().padStart(2, "0");
+  const percentLeft = Math.min(100, (blocksLeft / revealWindow) * 100);
+
+  return (
+    <div className="roll-countdown">
+      <div className="roll-countdown-bar">
+        <div className="roll-countdown-fill" style={{ width: `${percentLeft}%` }} />
+      </div>
+      <span>
+        {blocksLeft} blocks · ~{minutes}:{seconds} left
+      </span>
+    </div>
+  );
+};
+
+/**
+ * Every position the connected account committed that is still inside the reveal window, each with its own roll,
+ * countdown to REVEAL_WINDOW expiry and topple button.
+ */
+export const PendingRollsPanel = ({
+  liveReveals,
+  toppleChecks,
+  missingRevealIds,
+  pot,
+  clawdPrice,
+  topplingPositionId,
+  recoveringPositionId,
+  onTopple,
+  onRecover,
+  canRecover,
+}: PendingRollsPanelProps) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: revealWindow } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "REVEAL_WINDOW",
+    watch: false,
+  });
+  const towerParameters = useTowerParameters();
+
+  if (liveReveals.length === 0 && missingRevealIds.length === 0) return null;
+
+  const windowBlocks = revealWindow ? Number(revealWindow) : DEFAULT_REVEAL_WINDOW;
+  const blockTimeMs = targetNetwork.blockTime ?? DEFAULT_BLOCK_TIME_MS;
+  const toppleModulo = towerParameters?.toppleModulo.toString() ?? "?";
+
+  // Winners first, then newest lobsters on top
+  const rows = [...liveReveals]
+    .map(pending => ({ pending, check: toppleChecks.find(check => check.positionId === pending.positionId) }))
+    .sort((a, b) => {
+      if (!!a.check?.winner !== !!b.check?.winner) return a.check?.winner ? -1 : 1;
+      return a.pending.positionId > b.pending.positionId ? -1 : 1;
+    });
+
+  return (
+    <div className="panel pending-rolls-panel">
+      <h2 className="section-title">Pending Rolls 🎲</h2>
+      <div className="pending-rolls-list">
+        {rows.map(({ pending, check }) => (
+          <div
+            key={pending.positionId.toString()}
+            className={`pending-roll ${check?.winner ? "topple-winner" : "topple-safe"}`}
+          >
+            <div className="pending-roll-header">
+              <span className="position-number">🦞 #{pending.positionId.toString()}</span>
+              {!check ? (
+                <span className="pending-roll-status">
+                  <span className="spinner" /> Rolling...
+                </span>
+              ) : check.winner ? (
+                <span className="pending-roll-status pending-roll-win">
+                  🎉 Roll {check.roll}/{toppleModulo} — WINNER!
+                </span>
+              ) : (
+                <span className="pending-roll-status">
+                  Roll {check.roll}/{toppleModulo} — tower stands
+                </span>
+              )}
+            </div>
+            {check && (
+              <RollCountdown blocksLeft={check.blocksLeft} revealWindow={windowBlocks} blockTimeMs={blockTimeMs} />
+            )}
+            {check?.winner && (
+              <>
+                <div className="topple-result-pot">
+                  Pot: {formatClawdFull(pot)} CLAWD {formatUsd(pot, clawdPrice)}
+                </div>
+                <button
+                  className="btn-action btn-topple"
+                  disabled={topplingPositionId !== null}
+                  onClick={() => onTopple(check.positionId, check.reveal)}
+                >
+                  {topplingPositionId === check.positionId ? (
+                    <>
+                      <span className="spinner" /> Toppling...
+                    </>
+                  ) : (
+                    "🌊 TOPPLE THE TOWER 🌊"
+                  )}
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+      {missingRevealIds.length > 0 && (
+        <div className="recover-list">
+          <div className="recover-hint">
+            {canRecover
+              ? "These lobsters still have a live roll, but its reveal isn't on this device. Sign again to recover it."
+              : "These lobsters still have a live roll, but its reveal isn't on this device. This wallet signs differently every time, so only the browser that entered can roll them."}
+          </div>
+          {canRecover &&
+            missingRevealIds.map(positionId => (
+              <button
+                key={positionId.toString()}
+                className="btn-recover"
+                disabled={recoveringPositionId !== null}
+                onClick={() => onRecover(positionId)}
+              >
+                {recoveringPositionId === positionId ? (
+                  <>
+                    <span className="spinner" /> Recovering #{positionId.toString()}...
+                  </>
+                ) : (
+                  `🔑 Recover roll for #${positionId.toString()}`
+                )}
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+"use client";
+
+import Link from "next/link";
+import { PositionsTable } from "./PositionsTable";
+import { Address } from "viem";
+import { formatClawdFull, formatUsd } from "~~/utils/lobster-tower/format";
+
+type PositionsPanelProps = {
+  account: Address;
+  positionIds: readonly bigint[];
+  unclaimedEarnings: bigint | undefined;
+  clawdPrice: number | null;
+  isClaiming: boolean;
+  isClaimDisabled: boolean;
+  onClaim: () => void;
+};
+
+/**
+ * "Your Lobsters": every position of the connected account with its earnings, and the claim button.
+ */
+export const PositionsPanel = ({
+  account,
+  positionIds,
+  unclaimedEarnings,
+  clawdPrice,
+  isClaiming,
+  isClaimDisabled,
+  onClaim,
+}: PositionsPanelProps) => {
+  return (
+    <div className="panel positions-panel">
+      <h2 className="section-title">Your Lobsters</h2>
+      <div className="unclaimed-total">
+        <span className="unclaimed-label">Unclaimed Earnings</span>
+        <span className="unclaimed-value">
+          {formatClawdFull(unclaimedEarnings)} CLAWD {formatUsd(unclaimedEarnings, clawdPrice)}
+        </span>
+      </div>
+
+      <PositionsTable positionIds={positionIds} />
+
+      {unclaimedEarnings !== undefined && unclaimedEarnings > 0n && (
+        <button className="btn-action btn-claim" disabled={isClaimDisabled} onClick={onClaim}>
+          {isClaiming ? (
+            <>
+              <span className="spinner" /> Claiming...
+            </>
+          ) : (
+            `Claim ${formatClawdFull(unclaimedEarnings)} CLAWD`
+          )}
+        </button>
+      )}
+
+      <Link href={`/account?address=${account}`} className="panel-link">
+        Your profile →
+      </Link>
+    </div>
+  );
+};
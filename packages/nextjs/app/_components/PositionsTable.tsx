@@ -0,0 +1,107 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { PositionEarnings, usePositionEarnings } from "~~/hooks/lobster-tower";
+import { formatClawdFull, formatDateTime } from "~~/utils/lobster-tower/format";
+
+type SortKey = "positionId" | "round" | "enteredAt" | "accrued" | "claimed" | "unclaimed";
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "positionId", label: "Lobster" },
+  { key: "round", label: "Round" },
+  { key: "enteredAt", label: "Entered" },
+  { key: "accrued", label: "Accrued" },
+  { key: "claimed", label: "Claimed" },
+  { key: "unclaimed", label: "Unclaimed" },
+];
+
+/**
+ * Positions with their round, entry time and earnings, sortable by any column and filterable by round.
+ */
+export const PositionsTable = ({ positionIds }: { positionIds: readonly bigint[] }) => {
+  const { positions, isLoading, error } = usePositionEarnings(positionIds);
+  const [sortKey, setSortKey] = useState<SortKey>("positionId");
+  const [isAscending, setIsAscending] = useState(false);
+  const [roundFilter, setRoundFilter] = useState<string>("all");
+
+  const rounds = useMemo(
+    () => [...new Set(positions.map(({ round }) => round))].sort((a, b) => (a > b ? -1 : 1)),
+    [positions],
+  );
+
+  const rows = useMemo(() => {
+    const filtered =
+      roundFilter === "all" ? positions : positions.filter(({ round }) => round.toString() === roundFilter);
+    return [...filtered].sort((a: PositionEarnings, b: PositionEarnings) => {
+      if (a[sortKey] === b[sortKey]) return 0;
+      return a[sortKey] > b[sortKey] === isAscending ? 1 : -1;
+    });
+  }, [positions, roundFilter, sortKey, isAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setIsAscending(!isAscending);
+    } else {
+      setSortKey(key);
+      setIsAscending(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="positions-loading">
+        <span className="spinner" /> Loading {positionIds.length} lobsters...
+      </div>
+    );
+  }
+  if (error) {
+    return <p className="positions-loading">Could not load earnings: {error.message}</p>;
+  }
+
+  return (
+    <>
+      {rounds.length > 1 && (
+        <label className="positions-filter">
+          Round
+          <select value={roundFilter} onChange={e => setRoundFilter(e.target.value)}>
+            <option value="all">All rounds</option>
+            {rounds.map(round => (
+              <option key={round.toString()} value={round.toString()}>
+                Round {round.toString()}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="positions-table-wrapper">
+        <table className="positions-table">
+          <thead>
+            <tr>
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} onClick={() => handleSort(key)} className={sortKey === key ? "sorted" : ""}>
+                  {label}
+                  {sortKey === key && (isAscending ? " ▲" : " ▼")}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(position => (
+              <tr key={position.positionId.toString()}>
+                <td className="position-number">🦞 #{position.positionId.toString()}</td>
+                <td>{position.round.toString()}</td>
+                <td>{formatDateTime(position.enteredAt)}</td>
+                <td>{formatClawdFull(position.accrued)}</td>
+                <td>{formatClawdFull(position.claimed)}</td>
+                <td className={position.unclaimed > 0n ? "position-unclaimed" : ""}>
+                  {formatClawdFull(position.unclaimed)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { PositionsTable } from "../../_components/PositionsTable";
+import { Address, AddressInput } from "@scaffold-ui/components";
+import { Address as AddressType, getAddress, isAddress } from "viem";
+import { useAccount } from "wagmi";
+import { useAccountHistory, useClawdPrice } from "~~/hooks/lobster-tower";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatClawd, formatClawdFull, formatDateTime, formatUsd } from "~~/utils/lobster-tower/format";
+
+const AccountLookup = () => {
+  const router = useRouter();
+  const { address: connectedAddress } = useAccount();
+  const [lookup, setLookup] = useState("");
+
+  return (
+    <div className="panel">
+      <h2 className="section-title">Look Up an Account</h2>
+      <div className="account-lookup">
+        <AddressInput value={lookup} onChange={setLookup} placeholder="Address or ENS name" />
+        <button
+          className="btn-action"
+          disabled={!isAddress(lookup)}
+          onClick={() => router.push(`/account?address=${lookup}`)}
+        >
+          View
+        </button>
+      </div>
+      {connectedAddress && (
+        <Link href={`/account?address=${connectedAddress}`} className="panel-link">
+          Your profile →
+        </Link>
+      )}
+    </div>
+  );
+};
+
+const AccountDetails = ({ address }: { address: AddressType }) => {
+  const clawdPrice = useClawdPrice();
+  const { data: history, isLoading, error } = useAccountHistory(address);
+
+  const { data: positionIds } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "getUserPositions",
+    args: [address],
+  });
+
+  const { data: unclaimed } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "getUnclaimedEarnings",
+    args: [address],
+  });
+
+  // Everything taken out or still claimable, minus everything put in
+  const netPnl =
+    history && unclaimed !== undefined ? history.claimed + unclaimed + history.won - history.spent : undefined;
+  const netPnlAbs = netPnl !== undefined && netPnl < 0n ? -netPnl : netPnl;
+
+  return (
+    <>
+      <div className="panel account-header">
+        <Address address={address} format="long" />
+      </div>
+
+      <div className="stats-bar">
+        <div className="stat-item">
+          <div className="stat-value">{positionIds?.length ?? "—"}</div>
+          <div className="stat-label">🦞 Lobsters</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{history ? formatClawd(history.spent) : "—"}</div>
+          <div className="stat-label">💸 Spent</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value stat-gold">{history ? formatClawd(history.claimed) : "—"}</div>
+          <div className="stat-label">💰 Claimed</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value stat-gold">{formatClawd(unclaimed)}</div>
+          <div className="stat-label">⏳ Unclaimed</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value stat-gold">{history ? formatClawd(history.won) : "—"}</div>
+          <div className="stat-label">🌊 Won ({history?.topples.length ?? 0} topples)</div>
+        </div>
+      </div>
+
+      <div className="panel">
+        <h2 className="section-title">Net P&amp;L</h2>
+        {isLoading ? (
+          <p className="no-activity">
+            <span className="spinner" /> Loading history...
+          </p>
+        ) : error ? (
+          <p className="no-activity">Could not load history: {error.message}</p>
+        ) : (
+          <div className={`account-pnl ${netPnl !== undefined && netPnl < 0n ? "account-pnl-loss" : ""}`}>
+            {netPnl !== undefined && netPnl < 0n ? "-" : "+"}
+            {formatClawdFull(netPnlAbs)} CLAWD {formatUsd(netPnlAbs, clawdPrice)}
+          </div>
+        )}
+        <p className="account-pnl-note">Claimed + unclaimed + pots won − spent on entries</p>
+      </div>
+
+      <div className="panel positions-panel">
+        <h2 className="section-title">Lobsters</h2>
+        {positionIds && positionIds.length > 0 ? (
+          <PositionsTable positionIds={positionIds} />
+        ) : (
+          <p className="no-activity">No lobsters stacked yet</p>
+        )}
+      </div>
+
+      {history && history.topples.length > 0 && (
+        <div className="panel activity-panel">
+          <h2 className="section-title">Topples Won 🌊</h2>
+          <div className="activity-list">
+            {history.topples.map(topple => (
+              <div key={topple.transactionHash} className="activity-item topple-event">
+                <span>💥</span>
+                <Link href={`/rounds?round=${topple.round}`} className="round-link">
+                  Round {topple.round}
+                </Link>
+                <span>
+                  won {formatClawdFull(topple.potWon)} CLAWD at height {topple.height} on{" "}
+                  {formatDateTime(topple.timestamp)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+/**
+ * `/account?address=<address>` shows that address's whole tower history, `/account` alone asks for an address.
+ */
+export const AccountProfile = () => {
+  const address = useSearchParams().get("address");
+
+  return (
+    <div className="lobster-page">
+      <div className="page-content">
+        {address && isAddress(address) ? <AccountDetails address={getAddress(address)} /> : <AccountLookup />}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Suspense } from "react";
+import "../lobster.css";
+import { AccountProfile } from "./_components/AccountProfile";
+import type { Metadata, NextPage } from "next";
+
+export const metadata: Metadata = {
+  title: "Account | 🦞 Lobster Tower",
+  description: "Everything an address did on Lobster Tower: lobsters stacked, earnings, topples won and net P&L.",
+};
+
+// The address comes from `?address=` rather than a dynamic segment so the page survives a static IPFS export
+const Account: NextPage = () => {
+  return (
+    <Suspense>
+      <AccountProfile />
+    </Suspense>
+  );
+};
+
+export default Account;
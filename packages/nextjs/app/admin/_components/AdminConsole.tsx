@@ -0,0 +1,362 @@
+"use client";
+
+import { useState } from "react";
+import { SafeBatchPanel } from "./SafeBatchPanel";
+import { useConnectModal } from "@rainbow-me/rainbowkit";
+import { Address } from "@scaffold-ui/components";
+import { BPS_DENOMINATOR, splitEntry } from "@se-2/sdk";
+import { formatUnits, isAddressEqual, parseUnits } from "viem";
+import { useAccount } from "wagmi";
+import { TowerConfigChange, TowerParameters, useTowerConfigHistory, useTowerParameters } from "~~/hooks/lobster-tower";
+import { useScaffoldReadContract, useScaffoldWriteContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { useGlobalState } from "~~/services/store/store";
+import { formatBps, formatClawdFull } from "~~/utils/lobster-tower/format";
+import { AdminAction } from "~~/utils/lobster-tower/safeBatch";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+
+type Field = "entryCost" | "participantPercent" | "burnPercent";
+
+const FIELDS: { field: Field; label: string; step: string }[] = [
+  { field: "entryCost", label: "Entry cost (CLAWD)", step: "any" },
+  { field: "participantPercent", label: "To lobsters (%)", step: "0.01" },
+  { field: "burnPercent", label: "Burned (%)", step: "0.01" },
+];
+
+const toBps = (percent: string) => BigInt(Math.round(Number(percent) * 100));
+
+const validate = (values: Record<Field, string>) => {
+  const isPercent = (field: Field) => /^\d+(\.\d{1,2})?$/.test(values[field]);
+  if (!/^\d+(\.\d{1,18})?$/.test(values.entryCost) || parseUnits(values.entryCost, 18) === 0n) {
+    return "Entry cost must be a positive amount of CLAWD";
+  }
+  if (!isPercent("participantPercent") || !isPercent("burnPercent")) {
+    return "Splits must be percentages with at most 2 decimals";
+  }
+  if (toBps(values.participantPercent) + toBps(values.burnPercent) > BPS_DENOMINATOR) {
+    return "Lobsters and burn add up to more than 100%";
+  }
+  return undefined;
+};
+
+const SplitPreview = ({
+  current,
+  next,
+  towerHeight,
+}: {
+  current: TowerParameters;
+  next: { entryCost: bigint; participantBps: bigint; burnBps: bigint };
+  towerHeight: bigint;
+}) => {
+  const currentSplit = splitEntry({ ...current, towerHeight });
+  const nextSplit = splitEntry({ ...next, towerHeight });
+  const perLobster = (participantShare: bigint) =>
+    towerHeight > 0n ? `${formatClawdFull(participantShare / towerHeight)} CLAWD` : "—";
+
+  const rows = [
+    { label: "Entry cost", current: current.entryCost, next: next.entryCost },
+    { label: "To lobsters", current: currentSplit.participantShare, next: nextSplit.participantShare },
+    { label: "Burned", current: currentSplit.burnAmount, next: nextSplit.burnAmount },
+    { label: "To the pot", current: currentSplit.potAmount, next: nextSplit.potAmount },
+  ];
+
+  return (
+    <div className="result-rows">
+      {rows.map(row => (
+        <div key={row.label} className={`result-row ${row.current !== row.next ? "admin-changed" : ""}`}>
+          <span>{row.label}</span>
+          <span>
+            {formatClawdFull(row.current)} → {formatClawdFull(row.next)} CLAWD
+          </span>
+        </div>
+      ))}
+      <div className="result-row result-detail">
+        <span>Each of the {towerHeight.toString()} lobsters stacked</span>
+        <span>
+          {perLobster(currentSplit.participantShare)} → {perLobster(nextSplit.participantShare)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const ParametersForm = ({
+  current,
+  isOwner,
+  onAddToBatch,
+}: {
+  current: TowerParameters;
+  isOwner: boolean;
+  onAddToBatch: (action: AdminAction) => void;
+}) => {
+  const { data: towerHeight } = useScaffoldReadContract({ contractName: "LobsterTower", functionName: "towerHeight" });
+  const { writeContractAsync: writeLobsterTower } = useScaffoldWriteContract({ contractName: "LobsterTower" });
+  const [overrides, setOverrides] = useState<Partial<Record<Field, string>>>({});
+  const [pending, setPending] = useState<"entryCost" | "distribution">();
+
+  const live: Record<Field, string> = {
+    entryCost: formatUnits(current.entryCost, 18),
+    participantPercent: formatUnits(current.participantBps, 2),
+    burnPercent: formatUnits(current.burnBps, 2),
+  };
+  const values = Object.fromEntries(
+    FIELDS.map(({ field }) => [field, (overrides[field] ?? live[field]).trim()]),
+  ) as Record<Field, string>;
+  const error = validate(values);
+  const next = error
+    ? undefined
+    : {
+        entryCost: parseUnits(values.entryCost, 18),
+        participantBps: toBps(values.participantPercent),
+        burnBps: toBps(values.burnPercent),
+      };
+  const isEntryCostChanged = !!next && next.entryCost !== current.entryCost;
+  const isDistributionChanged =
+    !!next && (next.participantBps !== current.participantBps || next.burnBps !== current.burnBps);
+
+  // Drops the edits a successful update just made live, keeping those of the other update
+  const keepOverrides = (fields: Field[]) =>
+    setOverrides(current =>
+      Object.fromEntries(Object.entries(current).filter(([field]) => fields.includes(field as Field))),
+    );
+
+  const submit = async (kind: "entryCost" | "distribution") => {
+    if (!next) return;
+    setPending(kind);
+    try {
+      if (kind === "entryCost") {
+        await writeLobsterTower({ functionName: "setEntryCost", args: [next.entryCost] });
+        keepOverrides(["participantPercent", "burnPercent"]);
+      } else {
+        await writeLobsterTower({ functionName: "setDistribution", args: [next.participantBps, next.burnBps] });
+        keepOverrides(["entryCost"]);
+      }
+    } catch (e) {
+      console.error(`Updating ${kind} failed:`, e);
+    } finally {
+      setPending(undefined);
+    }
+  };
+
+  return (
+    <div className="panel">
+      <h2 className="section-title">Entry Cost & Split</h2>
+      <div className="field-grid">
+        {FIELDS.map(({ field, label, step }) => (
+          <label key={field} className={`field ${overrides[field] !== undefined ? "field-edited" : ""}`}>
+            <span>{label}</span>
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={values[field]}
+              onChange={e => setOverrides({ ...overrides, [field]: e.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+      {Object.keys(overrides).length > 0 && (
+        <button className="field-reset" onClick={() => setOverrides({})}>
+          Reset to live values
+        </button>
+      )}
+      {error && <p className="sim-error">{error}</p>}
+
+      {next && towerHeight !== undefined && (
+        <>
+          <p className="sim-note">
+            Per entry, with {formatBps(BPS_DENOMINATOR - next.participantBps - next.burnBps)} going to the pot:
+          </p>
+          <SplitPreview current={current} next={next} towerHeight={towerHeight} />
+        </>
+      )}
+
+      <div className="admin-actions">
+        <button
+          className="btn-action btn-claim"
+          disabled={!isOwner || !isEntryCostChanged || !!pending}
+          onClick={() => submit("entryCost")}
+        >
+          {pending === "entryCost" ? <span className="spinner" /> : "Update Entry Cost"}
+        </button>
+        <button
+          className="btn-action btn-claim"
+          disabled={!isOwner || !isDistributionChanged || !!pending}
+          onClick={() => submit("distribution")}
+        >
+          {pending === "distribution" ? <span className="spinner" /> : "Update Split"}
+        </button>
+      </div>
+      <div className="admin-actions">
+        <button
+          className="btn-action btn-approve"
+          disabled={!isEntryCostChanged}
+          onClick={() => onAddToBatch({ functionName: "setEntryCost", args: [next!.entryCost] })}
+        >
+          Add Entry Cost to Safe Batch
+        </button>
+        <button
+          className="btn-action btn-approve"
+          disabled={!isDistributionChanged}
+          onClick={() => onAddToBatch({ functionName: "setDistribution", args: [next!.participantBps, next!.burnBps] })}
+        >
+          Add Split to Safe Batch
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const PauseControl = ({ isOwner, onAddToBatch }: { isOwner: boolean; onAddToBatch: (action: AdminAction) => void }) => {
+  const isTowerPaused = useGlobalState(({ isTowerPaused }) => isTowerPaused);
+  const { writeContractAsync: writeLobsterTower, isMining } = useScaffoldWriteContract({
+    contractName: "LobsterTower",
+  });
+
+  const handleToggle = async () => {
+    try {
+      await writeLobsterTower({ functionName: "setPaused", args: [!isTowerPaused] });
+    } catch (e) {
+      console.error("Updating paused failed:", e);
+    }
+  };
+
+  return (
+    <div className="panel">
+      <h2 className="section-title">Entries</h2>
+      <p className="allowance-note">
+        {isTowerPaused === undefined
+          ? "Loading..."
+          : isTowerPaused
+            ? "⏸️ Paused: nobody can stack a lobster. Claiming and toppling still work."
+            : "▶️ Open: anyone can stack a lobster."}
+      </p>
+      <button
+        className={`btn-action ${isTowerPaused ? "btn-enter" : "btn-approve"}`}
+        disabled={!isOwner || isTowerPaused === undefined || isMining}
+        onClick={handleToggle}
+      >
+        {isMining ? <span className="spinner" /> : isTowerPaused ? "Unpause the Tower" : "Pause the Tower"}
+      </button>
+      <button
+        className="btn-action btn-approve admin-batch-button"
+        disabled={isTowerPaused === undefined}
+        onClick={() => onAddToBatch({ functionName: "setPaused", args: [!isTowerPaused] })}
+      >
+        Add {isTowerPaused ? "Unpause" : "Pause"} to Safe Batch
+      </button>
+    </div>
+  );
+};
+
+const describeChange = (change: TowerConfigChange) => {
+  switch (change.kind) {
+    case "entryCost":
+      return `Entry cost ${formatClawdFull(change.oldCost)} → ${formatClawdFull(change.newCost)} CLAWD`;
+    case "distribution":
+      return `Split ${formatBps(change.participantBps)} lobsters · ${formatBps(change.burnBps)} burned · ${formatBps(
+        BPS_DENOMINATOR - change.participantBps - change.burnBps,
+      )} pot`;
+    case "pause":
+      return change.paused ? "Paused" : "Unpaused";
+  }
+};
+
+const ChangeHistory = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const { changes, isLoading } = useTowerConfigHistory();
+
+  return (
+    <div className="panel">
+      <h2 className="section-title">Change History</h2>
+      {isLoading ? (
+        <p className="no-activity">
+          <span className="spinner" /> Loading changes...
+        </p>
+      ) : changes.length === 0 ? (
+        <p className="no-activity">The tower still runs with its deployment settings</p>
+      ) : (
+        <div className="data-table-wrapper">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Block</th>
+                <th>Change</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map(change => {
+                // Local chains have no explorer to link to
+                const txLink = getBlockExplorerTxLink(targetNetwork.id, change.transactionHash);
+                return (
+                  <tr key={change.id}>
+                    <td>{change.blockNumber.toString()}</td>
+                    <td>{describeChange(change)}</td>
+                    <td>
+                      {txLink && (
+                        <a href={txLink} target="_blank" rel="noreferrer">
+                          tx ↗
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The owner's `setEntryCost`, `setDistribution` and `setPaused` with CLAWD and percentage inputs instead of wei and
+ * bps, a preview of what a new split pays per entry and every change made so far. Only the owner's wallet sends
+ * changes directly, anyone can draft them into a Safe batch for a Safe owner's signers.
+ */
+export const AdminConsole = () => {
+  const { address } = useAccount();
+  const { openConnectModal } = useConnectModal();
+  const towerParameters = useTowerParameters();
+  const { data: owner } = useScaffoldReadContract({ contractName: "LobsterTower", functionName: "owner" });
+  const isOwner = !!address && !!owner && isAddressEqual(address, owner);
+  const [batch, setBatch] = useState<AdminAction[]>([]);
+  const addToBatch = (action: AdminAction) => setBatch(current => [...current, action]);
+
+  return (
+    <div className="lobster-page">
+      <div className="page-content">
+        <div className="panel">
+          <h2 className="section-title">Tower Admin 🛠️</h2>
+          <div className="admin-owner">
+            <span>Owner</span>
+            {owner ? <Address address={owner} size="sm" /> : <span className="spinner" />}
+          </div>
+          {!address ? (
+            <button className="btn-action btn-enter" onClick={openConnectModal}>
+              Connect the Owner Wallet
+            </button>
+          ) : (
+            !isOwner &&
+            owner && (
+              <p className="sim-warning">
+                The connected wallet isn&apos;t the owner, so changes can only be drafted as a Safe batch.
+              </p>
+            )
+          )}
+        </div>
+
+        {towerParameters && <ParametersForm current={towerParameters} isOwner={isOwner} onAddToBatch={addToBatch} />}
+        <PauseControl isOwner={isOwner} onAddToBatch={addToBatch} />
+        <SafeBatchPanel
+          actions={batch}
+          onAdd={addToBatch}
+          onRemove={index => setBatch(current => current.filter((_, i) => i !== index))}
+          owner={owner}
+        />
+        <ChangeHistory />
+      </div>
+    </div>
+  );
+};
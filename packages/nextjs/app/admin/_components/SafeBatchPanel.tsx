@@ -0,0 +1,169 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import { Address as AddressType, isAddress } from "viem";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  AdminAction,
+  SafeBatchVerification,
+  buildSafeBatch,
+  describeAdminAction,
+  verifySafeBatch,
+} from "~~/utils/lobster-tower/safeBatch";
+
+const downloadJson = (fileName: string, json: unknown) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(json, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BatchVerifier = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const [result, setResult] = useState<{ fileName: string; verification?: SafeBatchVerification; error?: string }>();
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !towerContract) return;
+    try {
+      const verification = verifySafeBatch(JSON.parse(await file.text()), {
+        chainId: targetNetwork.id,
+        tower: towerContract.address,
+        abi: towerContract.abi,
+      });
+      setResult({ fileName: file.name, verification });
+    } catch (error) {
+      setResult({ fileName: file.name, error: error instanceof Error ? error.message : "Can't read the file" });
+    }
+  };
+
+  const verification = result?.verification;
+  const isValid = verification && verification.errors.length === 0;
+
+  return (
+    <>
+      <h3 className="safe-batch-heading">Verify a Batch</h3>
+      <p className="sim-note">
+        Decodes a Transaction Builder file against the LobsterTower ABI on {targetNetwork.name} before you sign it.
+      </p>
+      <input type="file" accept="application/json,.json" className="safe-batch-file" onChange={handleFile} />
+
+      {result?.error && (
+        <p className="sim-error">
+          {result.fileName}: {result.error}
+        </p>
+      )}
+      {verification && (
+        <div className="safe-batch-verification">
+          <p className={isValid ? "safe-batch-valid" : "sim-error"}>
+            {isValid
+              ? `✅ ${result.fileName} only calls LobsterTower at ${towerContract?.address}`
+              : `❌ Don't sign ${result.fileName}`}
+          </p>
+          <ol className="safe-batch-list">
+            {verification.calls.map((call, i) => (
+              <li key={i}>{call.description}</li>
+            ))}
+          </ol>
+          {verification.errors.map(error => (
+            <p key={error} className="sim-error">
+              {error}
+            </p>
+          ))}
+          {verification.warnings.map(warning => (
+            <p key={warning} className="sim-warning">
+              ⚠️ {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+/**
+ * Collects admin calls into a Safe Transaction Builder batch to download, so a Safe owner's signers propose and
+ * co-sign them without handling calldata, and checks batch files before anyone signs them.
+ */
+export const SafeBatchPanel = ({
+  actions,
+  onAdd,
+  onRemove,
+  owner,
+}: {
+  actions: AdminAction[];
+  onAdd: (action: AdminAction) => void;
+  onRemove: (index: number) => void;
+  owner?: AddressType;
+}) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const [newOwner, setNewOwner] = useState("");
+
+  const handleDownload = () => {
+    if (!towerContract) return;
+    const batch = buildSafeBatch({
+      chainId: targetNetwork.id,
+      tower: towerContract.address,
+      abi: towerContract.abi,
+      actions,
+      safeAddress: owner,
+    });
+    downloadJson(`lobster-tower-admin-${targetNetwork.id}-${batch.createdAt}.json`, batch);
+  };
+
+  return (
+    <div className="panel">
+      <h2 className="section-title">Safe Batch</h2>
+      <p className="allowance-note">
+        When the owner is a Safe, add changes with the Safe Batch buttons above, download the batch and load it in the
+        Safe&apos;s Transaction Builder to propose it.
+      </p>
+
+      <div className="safe-batch-owner">
+        <label className="field">
+          <span>Transfer ownership to</span>
+          <input type="text" placeholder="0x..." value={newOwner} onChange={e => setNewOwner(e.target.value.trim())} />
+        </label>
+        <button
+          className="btn-action btn-approve safe-batch-add"
+          disabled={!isAddress(newOwner)}
+          onClick={() => {
+            onAdd({ functionName: "transferOwnership", args: [newOwner as AddressType] });
+            setNewOwner("");
+          }}
+        >
+          Add to Safe Batch
+        </button>
+      </div>
+
+      {actions.length === 0 ? (
+        <p className="no-activity">No changes in the batch yet</p>
+      ) : (
+        <ol className="safe-batch-list">
+          {actions.map((action, i) => (
+            <li key={i}>
+              {describeAdminAction(action)}
+              <button className="safe-batch-remove" onClick={() => onRemove(i)} aria-label="Remove">
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <button
+        className="btn-action btn-claim"
+        disabled={actions.length === 0 || !towerContract}
+        onClick={handleDownload}
+      >
+        Download Transaction Builder JSON
+      </button>
+
+      <BatchVerifier />
+    </div>
+  );
+};
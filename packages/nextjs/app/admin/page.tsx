@@ -0,0 +1,14 @@
+import "../lobster.css";
+import { AdminConsole } from "./_components/AdminConsole";
+import type { Metadata, NextPage } from "next";
+
+export const metadata: Metadata = {
+  title: "Admin | 🦞 Lobster Tower",
+  description: "Owner console for the Lobster Tower's entry cost, split and pause switch, with its change history.",
+};
+
+const AdminPage: NextPage = () => {
+  return <AdminConsole />;
+};
+
+export default AdminPage;
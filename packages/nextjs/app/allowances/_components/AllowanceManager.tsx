@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { useConnectModal } from "@rainbow-me/rainbowkit";
+import { Address } from "@scaffold-ui/components";
+import { Address as AddressType, maxUint256 } from "viem";
+import { useAccount } from "wagmi";
+import { TowerAllowance, useSmartAccount, useTowerAllowances } from "~~/hooks/lobster-tower";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { TowerBundlerClient } from "~~/services/web3/smartAccount";
+import { formatClawdFull, formatDateTime } from "~~/utils/lobster-tower/format";
+
+// Wallets that offer "unlimited" approve max uint256, and transferFrom may leave it untouched or slightly spent
+const UNLIMITED_THRESHOLD = maxUint256 / 2n;
+
+/** `bundlerClient` revokes as that client's smart account instead of the connected wallet */
+const AllowanceRow = ({ tower, bundlerClient }: { tower: TowerAllowance; bundlerClient?: TowerBundlerClient }) => {
+  const { writeContractAsync: writeCLAWD } = useScaffoldWriteContract({ contractName: "CLAWD" });
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    try {
+      await writeCLAWD({ functionName: "approve", args: [tower.spender, 0n] }, { bundlerClient });
+    } catch (e) {
+      console.error("Revoke failed:", e);
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <tr>
+      <td>
+        <Address address={tower.spender} size="sm" />
+      </td>
+      <td>{tower.deployedAt ? formatDateTime(tower.deployedAt) : "—"}</td>
+      <td className={`allowance-status ${tower.isCurrent ? "allowance-current" : ""}`}>
+        {tower.isCurrent ? "Current" : "Retired"}
+      </td>
+      <td>{tower.allowance >= UNLIMITED_THRESHOLD ? "Unlimited" : `${formatClawdFull(tower.allowance)} CLAWD`}</td>
+      <td>
+        <button
+          className="btn-action btn-approve allowance-revoke"
+          disabled={tower.allowance === 0n || isRevoking}
+          onClick={handleRevoke}
+        >
+          {isRevoking ? <span className="spinner" /> : "Revoke"}
+        </button>
+      </td>
+    </tr>
+  );
+};
+
+const AllowanceTable = ({ owner, bundlerClient }: { owner: AddressType; bundlerClient?: TowerBundlerClient }) => {
+  const { allowances, isLoading } = useTowerAllowances(owner);
+
+  if (isLoading) {
+    return (
+      <p className="no-activity">
+        <span className="spinner" /> Loading allowances...
+      </p>
+    );
+  }
+  if (allowances.length === 0) {
+    return <p className="no-activity">No tower deployments found on this network</p>;
+  }
+
+  return (
+    <div className="data-table-wrapper">
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Tower</th>
+            <th>Deployed</th>
+            <th>Status</th>
+            <th>Allowance</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {allowances.map(tower => (
+            <AllowanceRow key={tower.spender} tower={tower} bundlerClient={bundlerClient} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/**
+ * Every CLAWD allowance the connected wallet granted to a `LobsterTower`, current or retired, with one-click revoke.
+ * When a bundler is configured, the same for the wallet's gasless smart account, whether gasless mode is on or not.
+ */
+export const AllowanceManager = () => {
+  const { address } = useAccount();
+  const { openConnectModal } = useConnectModal();
+  const { isAvailable: isGaslessAvailable, smartAccountClient } = useSmartAccount({ deriveWhenOff: true });
+
+  return (
+    <div className="lobster-page">
+      <div className="page-content">
+        <div className="panel">
+          <h2 className="section-title">CLAWD Allowances</h2>
+          <p className="allowance-note">
+            Towers you approved to spend your CLAWD. Retired towers can&apos;t take entries anymore, so there&apos;s no
+            reason to leave anything approved to them.
+          </p>
+          {address ? (
+            <AllowanceTable owner={address} />
+          ) : (
+            <button className="btn-action btn-enter" onClick={openConnectModal}>
+              Connect Wallet to See Allowances
+            </button>
+          )}
+        </div>
+
+        {address && isGaslessAvailable && (
+          <div className="panel">
+            <h2 className="section-title">Smart Account Allowances</h2>
+            <p className="allowance-note">
+              Towers your gasless smart account approved. Revoking sends a UserOperation from the smart account.
+            </p>
+            {smartAccountClient ? (
+              <AllowanceTable owner={smartAccountClient.account.address} bundlerClient={smartAccountClient} />
+            ) : (
+              <p className="no-activity">
+                <span className="spinner" /> Loading your smart account...
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
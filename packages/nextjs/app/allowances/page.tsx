@@ -0,0 +1,14 @@
+import "../lobster.css";
+import { AllowanceManager } from "./_components/AllowanceManager";
+import type { Metadata, NextPage } from "next";
+
+export const metadata: Metadata = {
+  title: "Allowances | 🦞 Lobster Tower",
+  description: "Review and revoke the CLAWD allowances you granted to current and past Lobster Tower deployments.",
+};
+
+const AllowancesPage: NextPage = () => {
+  return <AllowanceManager />;
+};
+
+export default AllowancesPage;
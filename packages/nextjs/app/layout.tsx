@@ -1,28 +1,36 @@
 import "@rainbow-me/rainbowkit/styles.css";
 import "@scaffold-ui/components/styles.css";
+import type { Metadata } from "next";
 import { ScaffoldEthAppWithProviders } from "~~/components/ScaffoldEthAppWithProviders";
 import { ThemeProvider } from "~~/components/ThemeProvider";
 import "~~/styles/globals.css";
-import type { Metadata } from "next";
+import { fetchToppleModulo } from "~~/utils/lobster-tower/toppleOdds";
+
+export const generateMetadata = async (): Promise<Metadata> => {
+  const toppleModulo = await fetchToppleModulo();
+  const description = `Stack lobsters on a tower. ${
+    toppleModulo ? `1-in-${toppleModulo} chance to topple it` : "Topple it"
+  } and win the pot. Built on Base with $CLAWD.`;
 
-export const metadata: Metadata = {
-  metadataBase: new URL("https://lobsterstack.clawdbotatg.eth.limo"),
-  title: "🦞 Lobster Tower",
-  description: "Stack lobsters on a tower. 1-in-69 chance to topple it and win the pot. Built on Base with $CLAWD.",
-  openGraph: {
-    title: "🦞 Lobster Tower — Stack, Topple, Win",
-    description: "Stack lobsters on a tower. 1-in-69 chance to topple it and win the pot. Built on Base with $CLAWD.",
-    images: ["https://lobsterstack.clawdbotatg.eth.limo/thumbnail.jpg"],
-  },
-  twitter: {
-    card: "summary_large_image",
-    title: "🦞 Lobster Tower — Stack, Topple, Win",
-    description: "Stack lobsters on a tower. 1-in-69 chance to topple it and win the pot. Built on Base with $CLAWD.",
-    images: ["https://lobsterstack.clawdbotatg.eth.limo/thumbnail.jpg"],
-  },
-  icons: {
-    icon: [{ url: "/favicon.png", sizes: "32x32", type: "image/png" }],
-  },
+  return {
+    metadataBase: new URL("https://lobsterstack.clawdbotatg.eth.limo"),
+    title: "🦞 Lobster Tower",
+    description,
+    openGraph: {
+      title: "🦞 Lobster Tower — Stack, Topple, Win",
+      description,
+      images: ["https://lobsterstack.clawdbotatg.eth.limo/thumbnail.jpg"],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: "🦞 Lobster Tower — Stack, Topple, Win",
+      description,
+      images: ["https://lobsterstack.clawdbotatg.eth.limo/thumbnail.jpg"],
+    },
+    icons: {
+      icon: [{ url: "/favicon.png", sizes: "32x32", type: "image/png" }],
+    },
+  };
 };
 
 const ScaffoldEthApp = ({ children }: { children: React.ReactNode }) => {
@@ -0,0 +1,139 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Pager } from "../../_components/Pager";
+import { Address } from "@scaffold-ui/components";
+import { Leaderboard, LeaderboardEntry, useLeaderboard } from "~~/hooks/lobster-tower";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatClawd } from "~~/utils/lobster-tower/format";
+
+const PAGE_SIZE = 25;
+
+const BOARDS: { board: Leaderboard; label: string }[] = [
+  { board: "claimed", label: "💰 Top Earners" },
+  { board: "won", label: "🌊 Top Topplers" },
+  { board: "stacked", label: "🦞 Biggest Stackers" },
+  { board: "roi", label: "📈 Best ROI" },
+];
+
+const COLUMNS: { board: Leaderboard; label: string; format: (entry: LeaderboardEntry) => string }[] = [
+  { board: "claimed", label: "Claimed", format: entry => formatClawd(entry.claimed) },
+  { board: "won", label: "Pots Won", format: entry => formatClawd(entry.won) },
+  { board: "stacked", label: "Lobsters", format: entry => entry.stacked.toString() },
+  { board: "roi", label: "ROI", format: entry => (entry.roi === null ? "—" : `${(entry.roi * 100).toFixed(1)}%`) },
+];
+
+const isLeaderboard = (value: string | null): value is Leaderboard => BOARDS.some(({ board }) => board === value);
+
+/**
+ * `/leaderboards?board=<board>&scope=round&page=<n>`, all-time unless `scope=round` asks for the current round.
+ */
+export const Leaderboards = () => {
+  const searchParams = useSearchParams();
+  const boardParam = searchParams.get("board");
+  const board = isLeaderboard(boardParam) ? boardParam : "claimed";
+  const isCurrentRound = searchParams.get("scope") === "round";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const { data: towerRound } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "towerRound",
+  });
+  const round = isCurrentRound && towerRound !== undefined ? Number(towerRound) : undefined;
+
+  const { data, isLoading, error } = useLeaderboard({
+    board,
+    round,
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  });
+
+  const hrefFor = (params: { board?: Leaderboard; isCurrentRound?: boolean; page?: number }) => {
+    const query = new URLSearchParams({ board: params.board ?? board });
+    if (params.isCurrentRound ?? isCurrentRound) query.set("scope", "round");
+    if (params.page && params.page > 1) query.set("page", params.page.toString());
+    return `/leaderboards?${query}`;
+  };
+
+  return (
+    <div className="lobster-page">
+      <div className="page-content">
+        <div className="panel">
+          <h2 className="section-title">Leaderboards 🏆</h2>
+          <div className="leaderboard-tabs">
+            {BOARDS.map(tab => (
+              <Link
+                key={tab.board}
+                href={hrefFor({ board: tab.board })}
+                className={`leaderboard-tab ${tab.board === board ? "active" : ""}`}
+              >
+                {tab.label}
+              </Link>
+            ))}
+          </div>
+          <div className="leaderboard-tabs">
+            <Link
+              href={hrefFor({ isCurrentRound: false })}
+              className={`leaderboard-tab ${isCurrentRound ? "" : "active"}`}
+            >
+              All-time
+            </Link>
+            <Link
+              href={hrefFor({ isCurrentRound: true })}
+              className={`leaderboard-tab ${isCurrentRound ? "active" : ""}`}
+            >
+              Current round{towerRound !== undefined && ` (${towerRound})`}
+            </Link>
+          </div>
+
+          {isLoading || (isCurrentRound && round === undefined) ? (
+            <p className="no-activity">
+              <span className="spinner" /> Loading leaderboard...
+            </p>
+          ) : error ? (
+            <p className="no-activity">Could not load leaderboard: {error.message}</p>
+          ) : !data || data.items.length === 0 ? (
+            <p className="no-activity">Nobody on this board yet</p>
+          ) : (
+            <>
+              <div className="data-table-wrapper">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>#</th>
+                      <th>Player</th>
+                      {COLUMNS.map(column => (
+                        <th key={column.board} className={column.board === board ? "leaderboard-ranked" : ""}>
+                          {column.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.items.map(entry => (
+                      <tr key={entry.address}>
+                        <td className="leaderboard-rank">{entry.rank}</td>
+                        <td>
+                          <Link href={`/account?address=${entry.address}`}>
+                            <Address address={entry.address} onlyEnsOrAddress disableAddressLink />
+                          </Link>
+                        </td>
+                        {COLUMNS.map(column => (
+                          <td key={column.board} className={column.board === board ? "leaderboard-ranked" : ""}>
+                            {column.format(entry)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <Pager page={page} pageSize={PAGE_SIZE} total={data.total} hrefFor={p => hrefFor({ page: p })} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { Suspense } from "react";
+import "../lobster.css";
+import { Leaderboards } from "./_components/Leaderboards";
+import type { Metadata, NextPage } from "next";
+
+export const metadata: Metadata = {
+  title: "Leaderboards | 🦞 Lobster Tower",
+  description: "Top earners, top topplers, biggest stackers and best ROI on Lobster Tower.",
+};
+
+const LeaderboardsPage: NextPage = () => {
+  return (
+    <Suspense>
+      <Leaderboards />
+    </Suspense>
+  );
+};
+
+export default LeaderboardsPage;
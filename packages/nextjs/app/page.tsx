@@ -1,42 +1,36 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ApprovalStrategyPicker } from "./_components/ApprovalStrategyPicker";
+import { BulkEntryProgress, EntryQuantityPicker } from "./_components/BulkEntry";
+import { EvCalculator } from "./_components/EvCalculator";
+import { PendingRollsPanel } from "./_components/PendingRollsPanel";
+import { PositionsPanel } from "./_components/PositionsPanel";
 import "./lobster.css";
-import { Address } from "@scaffold-ui/components";
-import { formatUnits, keccak256, encodePacked, toHex } from "viem";
 import { useConnectModal } from "@rainbow-me/rainbowkit";
+import { Address } from "@scaffold-ui/components";
 import { useAccount, useSwitchChain } from "wagmi";
-import { useScaffoldEventHistory, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import {
+  useApprovalStrategy,
+  useAutoTopple,
+  useBatchedEnter,
+  useBulkEnter,
+  useClawdPrice,
+  useRevealDerivation,
+  useRevealVault,
+  useSmartAccount,
+  useToppleChecks,
+  useTowerAccount,
+  useTowerEvents,
+  useTowerParameters,
+} from "~~/hooks/lobster-tower";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
 import scaffoldConfig from "~~/scaffold.config";
-
-// Helper to format large CLAWD amounts
-function formatClawd(value: bigint | undefined): string {
-  if (!value) return "0";
-  const num = Number(formatUnits(value, 18));
-  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`;
-  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
-  return num.toFixed(0);
-}
-
-function formatClawdFull(value: bigint | undefined): string {
-  if (!value) return "0";
-  return Number(formatUnits(value, 18)).toLocaleString(undefined, { maximumFractionDigits: 0 });
-}
-
-function formatUsd(clawd: bigint | undefined, price: number | null): string {
-  if (!clawd || !price) return "";
-  const usd = Number(formatUnits(clawd, 18)) * price;
-  if (usd < 0.01) return "";
-  if (usd >= 1000) return `(~$${(usd / 1000).toFixed(1)}K)`;
-  return `(~$${usd.toFixed(2)})`;
-}
-
-// Generate a random bytes32
-function randomBytes32(): `0x${string}` {
-  const arr = new Uint8Array(32);
-  crypto.getRandomValues(arr);
-  return toHex(arr) as `0x${string}`;
-}
+import { useGlobalState } from "~~/services/store/store";
+import { getApprovalAmount } from "~~/utils/lobster-tower/approval";
+import { formatBps, formatClawd, formatClawdFull, formatUsd } from "~~/utils/lobster-tower/format";
+import { notification } from "~~/utils/scaffold-eth";
 
 export default function LobsterTowerPage() {
   const { address: connectedAddress, chain } = useAccount();
@@ -45,71 +39,69 @@ export default function LobsterTowerPage() {
   const targetNetwork = scaffoldConfig.targetNetworks[0];
   const isWrongNetwork = connectedAddress && chain && chain.id !== targetNetwork.id;
   const [isSwitching, setIsSwitching] = useState(false);
-  const [clawdPrice, setClawdPrice] = useState<number | null>(null);
-
-  // Commit-reveal state
-  const [pendingReveal, setPendingReveal] = useState<{ positionId: bigint; reveal: `0x${string}` } | null>(null);
-  const [toppleCheckResult, setToppleCheckResult] = useState<{ winner: boolean; roll: number; blocksLeft: number } | null>(null);
-  const [isCheckingTopple, setIsCheckingTopple] = useState(false);
-  const [isToppling, setIsToppling] = useState(false);
+  const clawdPrice = useClawdPrice();
+
+  // In gasless mode balances, positions and writes all belong to the connected wallet's smart account
+  const {
+    isAvailable: isGaslessAvailable,
+    isGasless,
+    setIsGasless,
+    bundlerClient,
+    smartAccountAddress,
+  } = useSmartAccount();
+  const towerAccount = useTowerAccount();
+
+  // Commit-reveal state (reveals live in the encrypted vault so a reload can resume them)
+  const { liveReveals, missingRevealIds, storeReveal, storePendingReveal, bindReveal, removeReveal } = useRevealVault();
+  const { deriveReveals, recoverReveal, isRecoverable } = useRevealDerivation();
+  const toppleChecks = useToppleChecks(liveReveals);
+  const [topplingPositionId, setTopplingPositionId] = useState<bigint | null>(null);
+  const [recoveringPositionId, setRecoveringPositionId] = useState<bigint | null>(null);
   const [toppleAnimation, setToppleAnimation] = useState(false);
 
-  // Fetch CLAWD price from DexScreener
-  useEffect(() => {
-    fetch("https://api.dexscreener.com/latest/dex/tokens/0x9f86dB9fc6f7c9408e8Fda3Ff8ce4e78ac7a6b07")
-      .then(r => r.json())
-      .then(d => {
-        const p = d?.pairs?.[0]?.priceUsd;
-        if (p) setClawdPrice(parseFloat(p));
-      })
-      .catch(() => {});
-  }, []);
-
   // ============ Read contract state ============
   const { data: towerStats } = useScaffoldReadContract({
     contractName: "LobsterTower",
     functionName: "getTowerStats",
   });
 
-  const { data: entryCost } = useScaffoldReadContract({
-    contractName: "LobsterTower",
-    functionName: "entryCost",
-  });
+  const towerParameters = useTowerParameters();
+  const entryCost = towerParameters?.entryCost;
+  // Only entering is paused, claims and topples go through either way
+  const isTowerPaused = useGlobalState(({ isTowerPaused }) => isTowerPaused);
 
   const { data: clawdBalance } = useScaffoldReadContract({
     contractName: "CLAWD",
     functionName: "balanceOf",
-    args: [connectedAddress],
-    query: { enabled: !!connectedAddress },
+    args: [towerAccount],
+    query: { enabled: !!towerAccount },
   });
 
   const { data: userPositions } = useScaffoldReadContract({
     contractName: "LobsterTower",
     functionName: "getUserPositions",
-    args: [connectedAddress],
-    query: { enabled: !!connectedAddress },
+    args: [towerAccount],
+    query: { enabled: !!towerAccount },
   });
 
   const { data: unclaimedEarnings } = useScaffoldReadContract({
     contractName: "LobsterTower",
     functionName: "getUnclaimedEarnings",
-    args: [connectedAddress],
-    query: { enabled: !!connectedAddress },
+    args: [towerAccount],
+    query: { enabled: !!towerAccount },
   });
 
-  // Event history
-  const { data: entryEvents } = useScaffoldEventHistory({
-    contractName: "LobsterTower",
+  // Event history (from the indexer when configured)
+  const { data: entryEvents } = useTowerEvents({
     eventName: "LobsterPlaced",
+    limit: 10,
     fromBlock: 42500000n,
-    watch: true,
   });
 
-  const { data: toppleEvents } = useScaffoldEventHistory({
-    contractName: "LobsterTower",
+  const { data: toppleEvents } = useTowerEvents({
     eventName: "TowerToppled",
+    limit: 5,
     fromBlock: 42500000n,
-    watch: true,
   });
 
   // ============ Write hooks ============
@@ -123,8 +115,18 @@ export default function LobsterTowerPage() {
   const [approveDisableTimer, setApproveDisableTimer] = useState(false);
   const [enterDisableTimer, setEnterDisableTimer] = useState(false);
   const [claimDisableTimer, setClaimDisableTimer] = useState(false);
-
-  const isAnyMining = isCLAWDMining || isTowerMining;
+  const [entryQuantity, setEntryQuantity] = useState(1);
+
+  const { isSupported: isBatchSupported, isPending: isBatchPending, batchEnter } = useBatchedEnter();
+  // Wallet call batches come from the wallet's own account, not the smart account
+  const canBatchEnter = isBatchSupported && !isGasless;
+  const {
+    entries: bulkEntries,
+    isRunning: isBulkRunning,
+    enterMany,
+    reset: resetBulkEntries,
+  } = useBulkEnter({ storePendingReveal, bindReveal });
+  const isAnyMining = isCLAWDMining || isTowerMining || isBatchPending || isBulkRunning;
 
   // Get LobsterTower address for allowance check
   const [towerAddr, setTowerAddr] = useState<`0x${string}` | undefined>();
@@ -147,44 +149,36 @@ export default function LobsterTowerPage() {
   const { data: realAllowance } = useScaffoldReadContract({
     contractName: "CLAWD",
     functionName: "allowance",
-    args: [connectedAddress, towerAddr],
-    query: { enabled: !!connectedAddress && !!towerAddr },
+    args: [towerAccount, towerAddr],
+    query: { enabled: !!towerAccount && !!towerAddr },
   });
 
-  const hasEnoughAllowance = realAllowance !== undefined && entryCost !== undefined && realAllowance >= entryCost;
-  const hasEnoughBalance = clawdBalance !== undefined && entryCost !== undefined && clawdBalance >= entryCost;
-
-  // ============ Check topple after entry ============
-  const { data: fullCheckData } = useScaffoldReadContract({
-    contractName: "LobsterTower",
-    functionName: "fullCheck",
-    args: [pendingReveal?.positionId, pendingReveal?.reveal],
-    query: { enabled: !!pendingReveal },
-  });
-
-  useEffect(() => {
-    if (fullCheckData && pendingReveal) {
-      const [winner, roll, , blocksRemaining] = fullCheckData;
-      setToppleCheckResult({
-        winner: winner as boolean,
-        roll: Number(roll),
-        blocksLeft: Number(blocksRemaining),
-      });
-      setIsCheckingTopple(false);
-    }
-  }, [fullCheckData, pendingReveal]);
+  // Bulk entries need the allowance and balance for every lobster up front
+  const totalEntryCost = entryCost !== undefined ? entryCost * BigInt(entryQuantity) : undefined;
+  const hasEnoughAllowance =
+    realAllowance !== undefined && totalEntryCost !== undefined && realAllowance >= totalEntryCost;
+  const { strategy: approvalStrategy, setStrategy: setApprovalStrategy } = useApprovalStrategy();
+  const strategyAmount = entryCost !== undefined ? getApprovalAmount(approvalStrategy, entryCost) : undefined;
+  const approveAmount =
+    strategyAmount !== undefined && totalEntryCost !== undefined && strategyAmount < totalEntryCost
+      ? totalEntryCost
+      : strategyAmount;
+  const hasEnoughBalance = clawdBalance !== undefined && totalEntryCost !== undefined && clawdBalance >= totalEntryCost;
 
   // ============ Handlers ============
   const handleApprove = async () => {
-    if (!towerAddr || !entryCost) return;
+    if (!towerAddr || !approveAmount) return;
     setIsApproving(true);
     setApproveDisableTimer(true);
     setTimeout(() => setApproveDisableTimer(false), 3000);
     try {
-      await writeCLAWD({
-        functionName: "approve",
-        args: [towerAddr, entryCost],
-      });
+      await writeCLAWD(
+        {
+          functionName: "approve",
+          args: [towerAddr, approveAmount],
+        },
+        { bundlerClient },
+      );
     } catch (e) {
       console.error("Approve failed:", e);
     } finally {
@@ -196,83 +190,93 @@ export default function LobsterTowerPage() {
     setIsEntering(true);
     setEnterDisableTimer(true);
     setTimeout(() => setEnterDisableTimer(false), 3000);
-    setToppleCheckResult(null);
-    setPendingReveal(null);
     setToppleAnimation(false);
 
     try {
-      // 1. Generate random reveal
-      const reveal = randomBytes32();
-
-      // 2. Compute commit on-chain via the contract's helper
-      // Actually, we need the commit before sending the tx, so compute locally
-      // keccak256(abi.encodePacked(reveal)) — for bytes32, this is just keccak256(reveal)
-      const commit = keccak256(reveal);
-
-      // 3. Enter the tower
-      await writeLobsterTower({
-        functionName: "enterTower",
-        args: [commit],
-      });
-
-      // 4. Get the position ID (latest nextLobsterId)
-      // We'll read it after tx confirms — the scaffold hook already waited
-      // Use the latest total lobsters from the refreshed state
-      // For now, set pending reveal — the position will be read from userPositions on next render
-      setIsCheckingTopple(true);
-
-      // Small delay for state to propagate, then get position
-      setTimeout(async () => {
-        try {
-          // The position ID is the last one in userPositions after the tx
-          // We need a fresh read — but scaffold auto-polls. Use the nextLobsterId approach
-          const rpcUrl = targetNetwork.rpcUrls?.default?.http?.[0] || `https://mainnet.base.org`;
-          const resp = await fetch(rpcUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              jsonrpc: "2.0",
-              id: 1,
-              method: "eth_call",
-              params: [{
-                to: towerAddr,
-                data: "0xce6c3bba" // nextLobsterId() selector
-              }, "latest"]
-            })
-          });
-          const data = await resp.json();
-          const posId = BigInt(data.result);
-          setPendingReveal({ positionId: posId, reveal });
-        } catch (e) {
-          console.error("Failed to get position ID:", e);
-          setIsCheckingTopple(false);
-        }
-      }, 2000);
+      if (entryQuantity > 1) {
+        await enterMany(entryQuantity, hasEnoughAllowance ? undefined : approveAmount);
+        return;
+      }
+
+      // 1. Derive the reveal from the session's reveal key (recoverable by signing again)
+      // 2. Commit to it the way the contract's computeCommit does
+      const [{ reveal, commit }] = await deriveReveals(1);
+
+      // 3. Keep the reveal in the vault under its commit before anything is sent, so closing the tab can't lose it
+      await storePendingReveal(commit, reveal);
+
+      // 4. Enter the tower, taking our position ID from the LobsterPlaced event in our own receipt
+      let positionId: bigint | undefined;
+      if (!hasEnoughAllowance && approveAmount) {
+        // Only offered when the wallet batches, approve and enter go out as one atomic call bundle
+        [positionId] = await batchEnter([commit], approveAmount);
+      } else {
+        await writeLobsterTower(
+          {
+            functionName: "enterTower",
+            args: [commit],
+          },
+          {
+            bundlerClient,
+            onEventLogs: logs => {
+              for (const log of logs) {
+                if (log.eventName === "LobsterPlaced") positionId = log.args.positionId;
+              }
+            },
+          },
+        );
+      }
+      if (positionId === undefined) throw new Error("LobsterPlaced event missing from receipt");
 
+      // 5. Move the reveal over to its position, its roll shows up under Pending Rolls
+      await bindReveal(commit, positionId);
     } catch (e) {
       console.error("Enter failed:", e);
-      setIsCheckingTopple(false);
     } finally {
       setIsEntering(false);
     }
   };
 
-  const handleTopple = async () => {
-    if (!pendingReveal) return;
-    setIsToppling(true);
+  // Auto-topple passes its session key's client, everything else sends from the tower account
+  const handleTopple = async (positionId: bigint, reveal: `0x${string}`, client = bundlerClient) => {
+    setTopplingPositionId(positionId);
     try {
-      await writeLobsterTower({
-        functionName: "topple",
-        args: [pendingReveal.positionId, pendingReveal.reveal],
-      });
+      const txHash = await writeLobsterTower(
+        {
+          functionName: "topple",
+          args: [positionId, reveal],
+        },
+        { bundlerClient: client },
+      );
+      if (!txHash) return false;
+      await removeReveal(positionId);
       setToppleAnimation(true);
       setTimeout(() => setToppleAnimation(false), 5000);
+      return true;
     } catch (e) {
       console.error("Topple failed:", e);
+      return false;
     } finally {
-      setIsToppling(false);
-      setPendingReveal(null);
-      setToppleCheckResult(null);
+      setTopplingPositionId(null);
+    }
+  };
+
+  const { isAutoToppleEnabled, isAutoToppleSilent, isAutoToppleSession, setAutoTopple } = useAutoTopple({
+    toppleChecks,
+    topple: handleTopple,
+    isToppling: topplingPositionId !== null,
+  });
+
+  const handleRecoverReveal = async (positionId: bigint) => {
+    setRecoveringPositionId(positionId);
+    try {
+      const reveal = await recoverReveal(positionId);
+      await storeReveal(positionId, reveal);
+    } catch (e: any) {
+      console.error("Recover failed:", e);
+      notification.error(e?.shortMessage || e?.message || "Could not recover this roll");
+    } finally {
+      setRecoveringPositionId(null);
     }
   };
 
@@ -281,9 +285,12 @@ export default function LobsterTowerPage() {
     setClaimDisableTimer(true);
     setTimeout(() => setClaimDisableTimer(false), 3000);
     try {
-      await writeLobsterTower({
-        functionName: "claimEarnings",
-      });
+      await writeLobsterTower(
+        {
+          functionName: "claimEarnings",
+        },
+        { bundlerClient },
+      );
     } catch (e) {
       console.error("Claim failed:", e);
     } finally {
@@ -302,9 +309,9 @@ export default function LobsterTowerPage() {
     totalToppled: towerStats ? Number(towerStats[6]) : 0,
   };
 
-  // Recent events (last 10)
-  const recentEntries = (entryEvents || []).slice(0, 10);
-  const recentTopples = (toppleEvents || []).slice(0, 5);
+  // Recent events
+  const recentEntries = entryEvents || [];
+  const recentTopples = toppleEvents || [];
 
   return (
     <div className="lobster-page">
@@ -396,6 +403,13 @@ export default function LobsterTowerPage() {
               </div>
             )}
 
+            {isGasless && smartAccountAddress && (
+              <div className="smart-account-display">
+                <span>Smart account</span>
+                <Address address={smartAccountAddress} size="xs" />
+              </div>
+            )}
+
             {!connectedAddress ? (
               <button className="btn-action btn-enter" onClick={openConnectModal}>
                 Connect Wallet to Stack 🦞
@@ -413,9 +427,13 @@ export default function LobsterTowerPage() {
               >
                 {isSwitching ? (<><span className="spinner" /> Switching...</>) : `Switch to ${targetNetwork.name}`}
               </button>
+            ) : isTowerPaused ? (
+              <button className="btn-action btn-enter" disabled>
+                Tower Paused ⏸️
+              </button>
             ) : !hasEnoughBalance ? (
               <div className="no-balance">
-                <p>You need {formatClawd(entryCost)} CLAWD to enter</p>
+                <p>You need {formatClawd(totalEntryCost)} CLAWD to enter</p>
                 <a
                   href="https://app.uniswap.org/swap?outputCurrency=0x9f86dB9fc6f7c9408e8Fda3Ff8ce4e78ac7a6b07&chain=base"
                   target="_blank"
@@ -425,93 +443,122 @@ export default function LobsterTowerPage() {
                   Get $CLAWD on Uniswap ↗
                 </a>
               </div>
-            ) : !hasEnoughAllowance ? (
+            ) : !hasEnoughAllowance && !canBatchEnter ? (
               <button
                 className="btn-action btn-approve"
                 disabled={isApproving || approveDisableTimer || isAnyMining}
                 onClick={handleApprove}
               >
-                {isApproving ? (<><span className="spinner" /> Approving...</>) : `Approve ${formatClawd(entryCost)} CLAWD`}
+                {isApproving ? (<><span className="spinner" /> Approving...</>) : `Approve ${formatClawd(approveAmount)} CLAWD`}
               </button>
             ) : (
               <button
                 className="btn-action btn-enter"
-                disabled={isEntering || enterDisableTimer || isAnyMining || isCheckingTopple}
+                disabled={isEntering || enterDisableTimer || isAnyMining}
                 onClick={handleEnterTower}
               >
-                {isEntering ? (<><span className="spinner" /> Stacking...</>) :
-                 isCheckingTopple ? (<><span className="spinner" /> Checking for topple...</>) :
-                 "Stack a Lobster 🦞"}
-              </button>
-            )}
-
-            <div className="distribution-info">
-              <span>80% to tower</span>
-              <span>10% burned</span>
-              <span>10% topple pot</span>
-            </div>
-
-            {/* Topple Check Result */}
-            {toppleCheckResult && (
-              <div className={`topple-result ${toppleCheckResult.winner ? "topple-winner" : "topple-safe"}`}>
-                {toppleCheckResult.winner ? (
+                {isEntering ? (
                   <>
-                    <div className="topple-result-title">🎉 YOU CAN TOPPLE! 🎉</div>
-                    <div className="topple-result-detail">
-                      Roll: {toppleCheckResult.roll}/69 — YOU WIN THE POT!
-                    </div>
-                    <div className="topple-result-pot">
-                      Pot: {formatClawdFull(stats.pot)} CLAWD {formatUsd(stats.pot, clawdPrice)}
-                    </div>
-                    <button
-                      className="btn-action btn-topple"
-                      disabled={isToppling}
-                      onClick={handleTopple}
-                    >
-                      {isToppling ? (<><span className="spinner" /> Toppling...</>) : "🌊 TOPPLE THE TOWER 🌊"}
-                    </button>
-                    <div className="topple-result-warning">
-                      ⏰ {toppleCheckResult.blocksLeft} blocks left to topple!
-                    </div>
+                    <span className="spinner" /> Stacking...
                   </>
+                ) : entryQuantity > 1 ? (
+                  `${hasEnoughAllowance ? "" : "Approve & "}Stack ${entryQuantity} Lobsters 🦞`
+                ) : hasEnoughAllowance ? (
+                  "Stack a Lobster 🦞"
                 ) : (
-                  <>
-                    <div className="topple-result-title">Tower stands! 🏗️</div>
-                    <div className="topple-result-detail">
-                      Roll: {toppleCheckResult.roll}/69 — needed 0 to topple
-                    </div>
-                    <div className="topple-result-sub">Your lobster is earning from future entries 💰</div>
-                  </>
+                  "Approve & Stack 🦞"
                 )}
+              </button>
+            )}
+
+            {connectedAddress && !isWrongNetwork && (
+              <EntryQuantityPicker quantity={entryQuantity} onChange={setEntryQuantity} disabled={isAnyMining} />
+            )}
+
+            {bulkEntries.length > 0 && (
+              <BulkEntryProgress entries={bulkEntries} onDismiss={isBulkRunning ? undefined : resetBulkEntries} />
+            )}
+
+            {connectedAddress && !isWrongNetwork && (
+              <ApprovalStrategyPicker
+                strategy={approvalStrategy}
+                onChange={setApprovalStrategy}
+                entryCost={entryCost}
+              />
+            )}
+
+            {towerParameters && (
+              <div className="distribution-info">
+                <span>{formatBps(towerParameters.participantBps)} to tower</span>
+                <span>{formatBps(towerParameters.burnBps)} burned</span>
+                <span>{formatBps(towerParameters.potBps)} topple pot</span>
               </div>
             )}
+
+            {connectedAddress && isGaslessAvailable && (
+              <label className="auto-topple-toggle">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={isGasless}
+                  onChange={e => setIsGasless(e.target.checked)}
+                />
+                <span>
+                  ⛽ Gasless
+                  {isGasless && " — your smart account holds the CLAWD and lobsters, your wallet only signs"}
+                </span>
+              </label>
+            )}
+
+            {connectedAddress && (
+              <label className="auto-topple-toggle">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={isAutoToppleEnabled}
+                  onChange={e => setAutoTopple(e.target.checked)}
+                />
+                <span>
+                  {isAutoToppleSilent ? "⚡ Auto-topple winning rolls" : "⚡ Prompt to topple as soon as I win"}
+                  {isAutoToppleEnabled &&
+                    (isAutoToppleSession
+                      ? " — a session key in this browser topples for you while this page is open"
+                      : isAutoToppleSilent
+                        ? " — burner wallet signs automatically while this page is open"
+                        : " — your wallet still asks you to confirm each topple")}
+                </span>
+              </label>
+            )}
           </div>
 
+          {/* Entry EV */}
+          <EvCalculator clawdPrice={clawdPrice} />
+
+          {/* Pending Rolls */}
+          <PendingRollsPanel
+            liveReveals={liveReveals}
+            toppleChecks={toppleChecks}
+            missingRevealIds={missingRevealIds}
+            pot={stats.pot}
+            clawdPrice={clawdPrice}
+            topplingPositionId={topplingPositionId}
+            recoveringPositionId={recoveringPositionId}
+            onTopple={handleTopple}
+            onRecover={handleRecoverReveal}
+            canRecover={isRecoverable !== false}
+          />
+
           {/* User Positions */}
-          {connectedAddress && userPositions && userPositions.length > 0 && (
-            <div className="panel positions-panel">
-              <h2 className="section-title">Your Lobsters</h2>
-              <div className="unclaimed-total">
-                <span className="unclaimed-label">Unclaimed Earnings</span>
-                <span className="unclaimed-value">{formatClawdFull(unclaimedEarnings)} CLAWD {formatUsd(unclaimedEarnings, clawdPrice)}</span>
-              </div>
-              <div className="positions-list">
-                {userPositions.map(posId => (
-                  <div key={Number(posId)} className="position-item">
-                    <span className="position-number">🦞 #{Number(posId)}</span>
-                  </div>
-                ))}
-              </div>
-              {unclaimedEarnings && unclaimedEarnings > 0n && (
-                <button
-                  className="btn-action btn-claim"
-                  disabled={isClaiming || claimDisableTimer || isAnyMining}
-                  onClick={handleClaim}
-                >
-                  {isClaiming ? (<><span className="spinner" /> Claiming...</>) : `Claim ${formatClawdFull(unclaimedEarnings)} CLAWD`}
-                </button>
-              )}
-            </div>
+          {towerAccount && userPositions && userPositions.length > 0 && (
+            <PositionsPanel
+              account={towerAccount}
+              positionIds={userPositions}
+              unclaimedEarnings={unclaimedEarnings}
+              clawdPrice={clawdPrice}
+              isClaiming={isClaiming}
+              isClaimDisabled={isClaiming || claimDisableTimer || isAnyMining}
+              onClaim={handleClaim}
+            />
           )}
 
           {/* Recent Topples */}
@@ -527,6 +574,9 @@ export default function LobsterTowerPage() {
                   </div>
                 ))}
               </div>
+              <Link href="/rounds" className="panel-link">
+                All rounds →
+              </Link>
             </div>
           )}
 
@@ -553,10 +603,17 @@ export default function LobsterTowerPage() {
             <h2 className="section-title">How It Works</h2>
             <ol className="how-it-works">
               <li>Pay {formatClawd(entryCost)} CLAWD to stack a lobster on the tower</li>
-              <li>80% goes to existing lobsters in the tower 💰</li>
-              <li>10% is burned forever 🔥</li>
-              <li>10% goes to the topple pot 💣</li>
-              <li>Each entry has a <strong>1-in-69</strong> chance to topple the tower</li>
+              {towerParameters && (
+                <>
+                  <li>{formatBps(towerParameters.participantBps)} goes to existing lobsters in the tower 💰</li>
+                  <li>{formatBps(towerParameters.burnBps)} is burned forever 🔥</li>
+                  <li>{formatBps(towerParameters.potBps)} goes to the topple pot 💣</li>
+                  <li>
+                    Each entry has a <strong>1-in-{towerParameters.toppleModulo.toString()}</strong> chance to topple
+                    the tower
+                  </li>
+                </>
+              )}
               <li>If you topple it — you win the entire pot! 🌊</li>
               <li>Tower resets. Your earned rewards are still claimable.</li>
             </ol>
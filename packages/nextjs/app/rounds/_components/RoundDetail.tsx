@@ -0,0 +1,124 @@
+"use client";
+
+import { Pager } from "../../_components/Pager";
+import { Address } from "@scaffold-ui/components";
+import { useTowerRound } from "~~/hooks/lobster-tower";
+import { formatClawd, formatClawdFull, formatDateTime, formatDuration } from "~~/utils/lobster-tower/format";
+
+const PAGE_SIZE = 50;
+
+/** One round's summary and its lobsters in stacking order, level 1 being the first one in */
+export const RoundDetail = ({ round, page }: { round: number; page: number }) => {
+  const { data, isLoading, error } = useTowerRound(round, { limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE });
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="no-activity">
+          <span className="spinner" /> Loading round {round}...
+        </p>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="panel">
+        <h2 className="section-title">Round {round}</h2>
+        <p className="no-activity">
+          {error ? `Could not load round: ${error.message}` : "This round hasn't started yet"}
+        </p>
+      </div>
+    );
+  }
+
+  const { round: summary, lobsters } = data;
+  const endedAt = summary.topple?.timestamp ?? Math.floor(Date.now() / 1000);
+
+  return (
+    <>
+      <div className="stats-bar">
+        <div className="stat-item">
+          <div className="stat-value">{summary.topple?.height ?? summary.lobsters}</div>
+          <div className="stat-label">🦞 Height</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value stat-gold">{summary.topple ? formatClawd(summary.topple.potWon) : "—"}</div>
+          <div className="stat-label">💣 Pot Won</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">
+            {summary.startedAt !== null ? formatDuration(endedAt - summary.startedAt) : "—"}
+          </div>
+          <div className="stat-label">⏱️ Duration</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value stat-burn">{formatClawd(summary.burned)}</div>
+          <div className="stat-label">🔥 Burned</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value stat-gold">{formatClawd(summary.entered)}</div>
+          <div className="stat-label">💰 Entered</div>
+        </div>
+      </div>
+
+      <div className="panel">
+        <h2 className="section-title">Round {summary.round}</h2>
+        {summary.topple ? (
+          <div className="activity-item topple-event">
+            <span>💥</span>
+            <Address address={summary.topple.toppler} />
+            <span>
+              toppled it on {formatDateTime(summary.topple.timestamp)} and won {formatClawdFull(summary.topple.potWon)}{" "}
+              CLAWD
+            </span>
+          </div>
+        ) : (
+          <p className="no-activity">Still standing</p>
+        )}
+      </div>
+
+      <div className="panel">
+        <h2 className="section-title">Stacking Order</h2>
+        {lobsters.items.length === 0 ? (
+          <p className="no-activity">No lobsters were stacked this round</p>
+        ) : (
+          <>
+            <div className="data-table-wrapper">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>Level</th>
+                    <th>Lobster</th>
+                    <th>Owner</th>
+                    <th>Paid</th>
+                    <th>Entered</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lobsters.items.map((lobster, i) => (
+                    <tr key={lobster.positionId}>
+                      <td>{(page - 1) * PAGE_SIZE + i + 1}</td>
+                      <td className="position-number">🦞 #{lobster.positionId}</td>
+                      <td>
+                        <Address address={lobster.owner} />
+                      </td>
+                      <td>{formatClawdFull(lobster.amount)} CLAWD</td>
+                      <td>{formatDateTime(lobster.enteredAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pager
+              page={page}
+              pageSize={PAGE_SIZE}
+              total={lobsters.total}
+              hrefFor={p => `/rounds?round=${summary.round}&page=${p}`}
+            />
+          </>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,72 @@
+"use client";
+
+import Link from "next/link";
+import { Pager } from "../../_components/Pager";
+import { Address } from "@scaffold-ui/components";
+import { TowerRound, useTowerRounds } from "~~/hooks/lobster-tower";
+import { formatClawd, formatDuration } from "~~/utils/lobster-tower/format";
+
+const PAGE_SIZE = 20;
+
+const RoundRow = ({ round }: { round: TowerRound }) => {
+  const endedAt = round.topple?.timestamp ?? Math.floor(Date.now() / 1000);
+
+  return (
+    <tr>
+      <td>
+        <Link href={`/rounds?round=${round.round}`} className="round-link">
+          #{round.round}
+        </Link>
+      </td>
+      <td>🦞 {round.topple?.height ?? round.lobsters}</td>
+      <td>{round.topple ? `${formatClawd(round.topple.potWon)} CLAWD` : "—"}</td>
+      <td>
+        {round.topple ? <Address address={round.topple.toppler} /> : <span className="round-standing">Standing</span>}
+      </td>
+      <td>{round.startedAt !== null ? formatDuration(endedAt - round.startedAt) : "—"}</td>
+      <td className="round-burned">🔥 {formatClawd(round.burned)}</td>
+    </tr>
+  );
+};
+
+export const RoundList = ({ page }: { page: number }) => {
+  const { data, isLoading, error } = useTowerRounds({ limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE });
+
+  return (
+    <div className="panel">
+      <h2 className="section-title">Rounds 🏁</h2>
+      {isLoading ? (
+        <p className="no-activity">
+          <span className="spinner" /> Loading rounds...
+        </p>
+      ) : error ? (
+        <p className="no-activity">Could not load rounds: {error.message}</p>
+      ) : !data || data.items.length === 0 ? (
+        <p className="no-activity">No rounds yet</p>
+      ) : (
+        <>
+          <div className="data-table-wrapper">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Round</th>
+                  <th>Height</th>
+                  <th>Pot Won</th>
+                  <th>Toppler</th>
+                  <th>Duration</th>
+                  <th>Burned</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.map(round => (
+                  <RoundRow key={round.round} round={round} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <Pager page={page} pageSize={PAGE_SIZE} total={data.total} hrefFor={p => `/rounds?page=${p}`} />
+        </>
+      )}
+    </div>
+  );
+};
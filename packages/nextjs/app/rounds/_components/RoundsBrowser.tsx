@@ -0,0 +1,32 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { RoundDetail } from "./RoundDetail";
+import { RoundList } from "./RoundList";
+
+/**
+ * `/rounds` lists every round, `/rounds?round=<n>` shows one. Both take a 1-based `page`.
+ */
+export const RoundsBrowser = () => {
+  const searchParams = useSearchParams();
+  const round = searchParams.get("round");
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  return (
+    <div className="lobster-page">
+      <div className="page-content">
+        {round !== null && /^\d+$/.test(round) ? (
+          <>
+            <Link href="/rounds" className="rounds-back">
+              ← All rounds
+            </Link>
+            <RoundDetail round={Number(round)} page={page} />
+          </>
+        ) : (
+          <RoundList page={page} />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Suspense } from "react";
+import "../lobster.css";
+import { RoundsBrowser } from "./_components/RoundsBrowser";
+import type { Metadata, NextPage } from "next";
+
+export const metadata: Metadata = {
+  title: "Rounds | 🦞 Lobster Tower",
+  description: "Every Lobster Tower round: how high it got, who toppled it and what they won.",
+};
+
+// Rounds are picked with `?round=` rather than a dynamic segment so the page survives a static IPFS export
+const Rounds: NextPage = () => {
+  return (
+    <Suspense>
+      <RoundsBrowser />
+    </Suspense>
+  );
+};
+
+export default Rounds;
@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { SimulationRun } from "./simulation.worker";
+import { SimulationConfig } from "@se-2/sdk";
+import { formatUnits, parseUnits } from "viem";
+import { useTowerParameters } from "~~/hooks/lobster-tower";
+import { formatClawd } from "~~/utils/lobster-tower/format";
+
+type Field = "rounds" | "entryCost" | "participantBps" | "burnBps" | "toppleModulo" | "seed";
+
+const FIELDS: { field: Field; label: string; step: string }[] = [
+  { field: "rounds", label: "Rounds", step: "1" },
+  { field: "entryCost", label: "Entry cost (CLAWD)", step: "any" },
+  { field: "participantBps", label: "To lobsters (bps)", step: "1" },
+  { field: "burnBps", label: "Burned (bps)", step: "1" },
+  { field: "toppleModulo", label: "Topple odds (1 in)", step: "1" },
+  { field: "seed", label: "Seed (blank for random)", step: "1" },
+];
+
+const DEFAULT_ROUNDS = 1000;
+// Keeps a run under a few seconds in the browser, `yarn simulate` has no such limit
+const MAX_ROUNDS = 20_000;
+const MAX_ENTRIES = 1_000_000;
+type Run = SimulationRun & { seed: number };
+
+const toConfig = (values: Record<Field, string>): SimulationConfig & { seed: number } => ({
+  entryCost: parseUnits(values.entryCost, 18),
+  participantBps: BigInt(values.participantBps),
+  burnBps: BigInt(values.burnBps),
+  toppleModulo: Number(values.toppleModulo),
+  rounds: Math.min(Number(values.rounds), MAX_ROUNDS),
+  seed: values.seed !== "" ? Number(values.seed) : Date.now() >>> 0,
+  maxEntries: MAX_ENTRIES,
+});
+
+const validate = (values: Record<Field, string>) => {
+  const isInteger = (field: Field) => /^\d+$/.test(values[field]);
+  if (!isInteger("rounds") || Number(values.rounds) < 1) return "Rounds must be a whole number of at least 1";
+  if (!/^\d+(\.\d+)?$/.test(values.entryCost)) return "Entry cost must be a positive amount";
+  if (!isInteger("participantBps") || !isInteger("burnBps")) return "Splits must be whole basis points";
+  if (Number(values.participantBps) + Number(values.burnBps) > 10_000) return "Splits add up to more than 10000 bps";
+  if (!isInteger("toppleModulo") || Number(values.toppleModulo) < 1) return "Topple odds must be at least 1 in 1";
+  if (values.seed !== "" && !isInteger("seed")) return "Seed must be a whole number";
+  return undefined;
+};
+
+const formatReturn = (ratio: number) => `${ratio.toFixed(2)}x`;
+const formatShare = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+/**
+ * Monte Carlo runs of the tower with the contract's exact payout math: how much a lobster gets back by the level it
+ * entered at, and how returns are spread over all positions. Starts from the live splits and odds.
+ */
+export const Simulator = () => {
+  const towerParameters = useTowerParameters();
+
+  const [overrides, setOverrides] = useState<Partial<Record<Field, string>>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [lastRun, setLastRun] = useState<Run>();
+  const [runError, setRunError] = useState<string>();
+  const worker = useRef<Worker>(undefined);
+
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  const live = useMemo(
+    (): Partial<Record<Field, string>> => ({
+      rounds: DEFAULT_ROUNDS.toString(),
+      entryCost: towerParameters && formatUnits(towerParameters.entryCost, 18),
+      participantBps: towerParameters?.participantBps.toString(),
+      burnBps: towerParameters?.burnBps.toString(),
+      toppleModulo: towerParameters?.toppleModulo.toString(),
+      seed: "",
+    }),
+    [towerParameters],
+  );
+
+  const values = Object.fromEntries(
+    FIELDS.map(({ field }) => [field, (overrides[field] ?? live[field] ?? "").trim()]),
+  ) as Record<Field, string>;
+  const isLoaded = FIELDS.every(({ field }) => field === "seed" || values[field] !== "");
+  const error = isLoaded ? validate(values) : undefined;
+
+  // Each run gets its own worker, which is dropped once it has answered
+  const handleRun = () => {
+    const config = toConfig(values);
+    const current = new Worker(new URL("./simulation.worker.ts", import.meta.url));
+    worker.current = current;
+    setIsRunning(true);
+    setRunError(undefined);
+    current.onmessage = ({ data }: MessageEvent<SimulationRun>) => {
+      setLastRun({ ...data, seed: config.seed });
+      setIsRunning(false);
+      current.terminate();
+    };
+    current.onerror = e => {
+      setRunError(e.message || "The simulation failed");
+      setIsRunning(false);
+      current.terminate();
+    };
+    current.postMessage(config);
+  };
+
+  return (
+    <div className="lobster-page">
+      <div className="page-content">
+        <div className="panel">
+          <h2 className="section-title">Tower Simulator 🎲</h2>
+          <p className="sim-intro">
+            Replays thousands of rounds with the contract&apos;s integer math: every entry splits its cost, pays the
+            lobsters below it and rolls to topple the tower.
+          </p>
+
+          <div className="field-grid">
+            {FIELDS.map(({ field, label, step }) => (
+              <label key={field} className={`field ${overrides[field] !== undefined ? "field-edited" : ""}`}>
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={values[field]}
+                  onChange={e => setOverrides({ ...overrides, [field]: e.target.value })}
+                />
+              </label>
+            ))}
+          </div>
+          {Object.keys(overrides).length > 0 && (
+            <button className="field-reset" onClick={() => setOverrides({})}>
+              Reset to live values
+            </button>
+          )}
+
+          <button className="btn-action btn-claim" disabled={!isLoaded || !!error || isRunning} onClick={handleRun}>
+            {isRunning ? (
+              <>
+                <span className="spinner" /> Simulating...
+              </>
+            ) : (
+              "🎲 Run simulation"
+            )}
+          </button>
+          {(error ?? runError) && <p className="sim-error">{error ?? runError}</p>}
+          {Number(values.rounds) > MAX_ROUNDS && !error && (
+            <p className="sim-note">
+              Capped at {MAX_ROUNDS.toLocaleString()} rounds here, use <code>yarn simulate</code> for longer runs
+            </p>
+          )}
+        </div>
+
+        {lastRun && <SimulationReport {...lastRun} />}
+      </div>
+    </div>
+  );
+};
+
+const SimulationReport = ({ seed, config, totals, summary }: Run) => {
+  const isCutShort = summary.rounds < config.rounds;
+  const maxBandReturn = summary.levels.reduce((max, { meanReturn }) => Math.max(max, meanReturn), 1);
+  const maxBucket = summary.returns.reduce((max, { positions }) => Math.max(max, positions), 0);
+
+  return (
+    <>
+      <div className="panel">
+        <h2 className="section-title">Results</h2>
+        <div className="result-rows">
+          <div className="result-row">
+            <span>Rounds / lobsters</span>
+            <span>
+              {summary.rounds.toLocaleString()} / {summary.entries.toLocaleString()}
+            </span>
+          </div>
+          <div className="result-row">
+            <span>Tower height at topple</span>
+            <span>
+              {summary.meanHeight.toFixed(1)} on average, {summary.maxHeight} at most
+            </span>
+          </div>
+          <div className="result-row">
+            <span>Pot won</span>
+            <span>{formatClawd(summary.meanPotWon)} CLAWD on average</span>
+          </div>
+          <div className="result-row">
+            <span>Return within the round</span>
+            <span>{formatReturn(summary.meanReturn)} the entry cost on average</span>
+          </div>
+          <div className="result-row result-detail">
+            <span>Entered / burned</span>
+            <span>
+              {formatClawd(totals.entered)} / {formatClawd(totals.burned)} CLAWD
+            </span>
+          </div>
+          <div className="result-row result-detail">
+            <span>Paid to lobsters / owed to lobsters</span>
+            <span>
+              {formatClawd(totals.paidOut)} / {formatClawd(totals.claimable)} CLAWD
+            </span>
+          </div>
+          <div className="result-row result-detail">
+            <span>Seed</span>
+            <span>{seed}</span>
+          </div>
+        </div>
+        {summary.claimableToPaidOut > 1 && (
+          <p className="sim-warning">
+            ⚠️ Positions are owed {summary.claimableToPaidOut.toFixed(2)}x what was paid to lobsters: lobsters of
+            toppled rounds keep earning from every later entry.
+          </p>
+        )}
+        {isCutShort && (
+          <p className="sim-note">
+            Stopped after {MAX_ENTRIES.toLocaleString()} lobsters, the last round never toppled.
+          </p>
+        )}
+      </div>
+
+      <div className="panel">
+        <h2 className="section-title">Return by Level</h2>
+        <p className="sim-note">
+          Earnings until the topple plus the pot, in entry costs, by the level a lobster entered
+        </p>
+        <div className="sim-chart">
+          {summary.levels.map(band => (
+            <div key={band.fromLevel} className="sim-bar-row">
+              <span className="sim-bar-label">
+                {band.fromLevel}–{band.toLevel}
+              </span>
+              <div className="sim-bar-track">
+                <div
+                  className={`sim-bar ${band.meanReturn >= 1 ? "sim-bar-profit" : ""}`}
+                  style={{ width: `${(band.meanReturn / maxBandReturn) * 100}%` }}
+                />
+              </div>
+              <span className="sim-bar-value">
+                {formatReturn(band.meanReturn)} · {formatShare(band.breakevenShare)} break even
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="panel">
+        <h2 className="section-title">Payout Distribution</h2>
+        <p className="sim-note">Share of all lobsters by what they got back, in entry costs</p>
+        <div className="sim-chart">
+          {summary.returns.map(bucket => (
+            <div key={bucket.from} className="sim-bar-row">
+              <span className="sim-bar-label">
+                {bucket.to === null ? `${bucket.from}x+` : `${bucket.from}–${bucket.to}x`}
+              </span>
+              <div className="sim-bar-track">
+                <div
+                  className={`sim-bar ${bucket.from >= 1 ? "sim-bar-profit" : ""}`}
+                  style={{ width: `${maxBucket > 0 ? (bucket.positions / maxBucket) * 100 : 0}%` }}
+                />
+              </div>
+              <span className="sim-bar-value">
+                {formatShare(bucket.positions / (summary.entries || 1))} · {bucket.positions.toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,18 @@
+import { SimulationConfig, SimulationResult, SimulationSummary, simulateTower, summarizeSimulation } from "@se-2/sdk";
+
+// Level bands get merged so the chart never has more rows than this
+const MAX_BANDS = 20;
+
+/** What the worker posts back: everything the report shows, without the positions it was summarized from */
+export type SimulationRun = Pick<SimulationResult, "config" | "totals"> & { summary: SimulationSummary };
+
+/**
+ * Runs one simulation off the main thread, so a long run never freezes the page.
+ */
+self.onmessage = ({ data: config }: MessageEvent<SimulationConfig>) => {
+  const result = simulateTower(config);
+  const maxLevel = result.positions.reduce((max, { level }) => Math.max(max, level), 0);
+  const summary = summarizeSimulation(result, { levelBandSize: Math.max(10, Math.ceil(maxLevel / MAX_BANDS)) });
+  const run: SimulationRun = { config: result.config, totals: result.totals, summary };
+  self.postMessage(run);
+};
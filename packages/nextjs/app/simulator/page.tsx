@@ -0,0 +1,14 @@
+import "../lobster.css";
+import { Simulator } from "./_components/Simulator";
+import type { Metadata, NextPage } from "next";
+
+export const metadata: Metadata = {
+  title: "Simulator | 🦞 Lobster Tower",
+  description: "Simulate thousands of Lobster Tower rounds and see how payouts are distributed.",
+};
+
+const SimulatorPage: NextPage = () => {
+  return <Simulator />;
+};
+
+export default SimulatorPage;
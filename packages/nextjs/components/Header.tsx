@@ -20,6 +20,22 @@ export const menuLinks: HeaderMenuLink[] = [
     label: "Home",
     href: "/",
   },
+  {
+    label: "Rounds",
+    href: "/rounds",
+  },
+  {
+    label: "Leaderboards",
+    href: "/leaderboards",
+  },
+  {
+    label: "Account",
+    href: "/account",
+  },
+  {
+    label: "Simulator",
+    href: "/simulator",
+  },
 ];
 
 export const HeaderMenuLinks = () => {
@@ -9,6 +9,9 @@ import { Toaster } from "react-hot-toast";
 import { WagmiProvider } from "wagmi";
 import { Footer } from "~~/components/Footer";
 import { Header } from "~~/components/Header";
+import { TowerParametersBanner } from "~~/components/TowerParametersBanner";
+import { TowerPausedBanner } from "~~/components/TowerPausedBanner";
+import { TowerStatusProvider } from "~~/components/TowerStatusProvider";
 import { BlockieAvatar } from "~~/components/scaffold-eth";
 import { wagmiConfig } from "~~/services/web3/wagmiConfig";
 
@@ -17,7 +20,11 @@ const ScaffoldEthApp = ({ children }: { children: React.ReactNode }) => {
     <>
       <div className={`flex flex-col min-h-screen `}>
         <Header />
-        <main className="relative flex flex-col flex-1">{children}</main>
+        <main className="relative flex flex-col flex-1">
+          <TowerPausedBanner />
+          <TowerParametersBanner />
+          {children}
+        </main>
         <Footer />
       </div>
       <Toaster />
@@ -50,7 +57,9 @@ export const ScaffoldEthAppWithProviders = ({ children }: { children: React.Reac
           theme={mounted ? (isDarkMode ? darkTheme() : lightTheme()) : lightTheme()}
         >
           <ProgressBar height="3px" color="#2299dd" />
-          <ScaffoldEthApp>{children}</ScaffoldEthApp>
+          <TowerStatusProvider>
+            <ScaffoldEthApp>{children}</ScaffoldEthApp>
+          </TowerStatusProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -0,0 +1,46 @@
+import React from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { TowerParameterChange, useTowerParameterChanges } from "~~/hooks/lobster-tower";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth/useTargetNetwork";
+import { formatBps, formatClawdFull } from "~~/utils/lobster-tower/format";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+
+const describeChange = (change: TowerParameterChange) => {
+  if (change.kind === "entryCost") {
+    return `Entry cost changed from ${formatClawdFull(change.oldCost)} to ${formatClawdFull(change.newCost)} CLAWD`;
+  }
+  return `The split changed: ${formatBps(change.participantBps)} to the tower, ${formatBps(change.burnBps)} burned, ${formatBps(change.potBps)} to the topple pot`;
+};
+
+/**
+ * Announces entry cost and split changes made while the app is open, until they're dismissed.
+ */
+export const TowerParametersBanner = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const { changes, dismissChange } = useTowerParameterChanges();
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2 px-4 pt-4">
+      {changes.map(change => {
+        const txLink = getBlockExplorerTxLink(targetNetwork.id, change.transactionHash);
+        return (
+          <div key={change.id} role="alert" className="alert alert-warning">
+            <span>📢 {describeChange(change)}</span>
+            <div className="flex items-center gap-2">
+              {txLink && (
+                <a href={txLink} target="_blank" rel="noreferrer" className="link text-sm">
+                  View transaction
+                </a>
+              )}
+              <button className="btn btn-ghost btn-xs" aria-label="Dismiss" onClick={() => dismissChange(change.id)}>
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
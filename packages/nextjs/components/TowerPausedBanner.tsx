@@ -0,0 +1,22 @@
+import React from "react";
+import { useGlobalState } from "~~/services/store/store";
+
+/**
+ * Only `enterTower` is gated by `paused`, so claiming and toppling keep working while it shows.
+ */
+export const TowerPausedBanner = () => {
+  const isTowerPaused = useGlobalState(({ isTowerPaused }) => isTowerPaused);
+
+  if (!isTowerPaused) return null;
+
+  return (
+    <div className="px-4 pt-4">
+      <div role="alert" className="alert alert-info">
+        <span>
+          ⏸️ The tower is paused, no new lobsters can be stacked for now. Claiming earnings and toppling with a winning
+          roll still work.
+        </span>
+      </div>
+    </div>
+  );
+};
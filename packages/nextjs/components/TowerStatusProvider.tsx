@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { useScaffoldReadContract, useScaffoldWatchContractEvent } from "~~/hooks/scaffold-eth";
+import { useGlobalState } from "~~/services/store/store";
+
+/**
+ * Reads `paused` once and follows `PauseUpdated` from then on, so every page can check
+ * `useGlobalState(({ isTowerPaused }) => isTowerPaused)` without reading it again.
+ */
+export const TowerStatusProvider = ({ children }: { children: React.ReactNode }) => {
+  const setIsTowerPaused = useGlobalState(({ setIsTowerPaused }) => setIsTowerPaused);
+  const { data: paused, refetch } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "paused",
+    watch: false,
+  });
+
+  useScaffoldWatchContractEvent({
+    contractName: "LobsterTower",
+    eventName: "PauseUpdated",
+    onLogs: () => {
+      refetch();
+    },
+  });
+
+  useEffect(() => {
+    setIsTowerPaused(paused);
+  }, [paused, setIsTowerPaused]);
+
+  return <>{children}</>;
+};
@@ -0,0 +1,26 @@
+/**
+ * This file is autogenerated by Scaffold-ETH.
+ * You should not edit it manually or your changes might be overwritten.
+ */
+
+/** Every address each contract was deployed at per chain, newest first */
+const deploymentHistory = {
+  8453: {
+    LobsterTower: [
+      {
+        address: "0x8d3547C0336149A1592472ac8d5c07C52865F801",
+        deployedAt: 1770343878,
+        deployedOnBlock: 41777265,
+        deploymentScript: "Deploy.s.sol",
+      },
+      {
+        address: "0xb05f0b9E52Bfa2005d16D88827645E531AaE4894",
+        deployedAt: 1770343765,
+        deployedOnBlock: 41777209,
+        deploymentScript: "DeployLobsterTower.s.sol",
+      },
+    ],
+  },
+} as const;
+
+export default deploymentHistory;
@@ -0,0 +1,20 @@
+export * from "./useAccountHistory";
+export * from "./useApprovalStrategy";
+export * from "./useAutoTopple";
+export * from "./useBatchedEnter";
+export * from "./useBulkEnter";
+export * from "./useClawdPrice";
+export * from "./useEntryRate";
+export * from "./useInvalidateOnBlock";
+export * from "./useLeaderboard";
+export * from "./usePositionEarnings";
+export * from "./useRevealDerivation";
+export * from "./useRevealVault";
+export * from "./useSmartAccount";
+export * from "./useToppleChecks";
+export * from "./useToppleSession";
+export * from "./useTowerAllowances";
+export * from "./useTowerConfigHistory";
+export * from "./useTowerEvents";
+export * from "./useTowerParameters";
+export * from "./useTowerRounds";
@@ -0,0 +1,159 @@
+import { useMemo } from "react";
+import { RoundTopple } from "./useTowerRounds";
+import { useQuery } from "@tanstack/react-query";
+import { Address, Hex } from "viem";
+import { useScaffoldEventHistory } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+
+export type AccountTopple = RoundTopple & { round: number };
+
+export type AccountHistory = {
+  /** CLAWD paid for every entry */
+  spent: bigint;
+  /** Sum of `EarningsClaimed` */
+  claimed: bigint;
+  /** Pots won by toppling */
+  won: bigint;
+  /** Newest first */
+  topples: AccountTopple[];
+};
+
+// The indexer answers with at most 100 topples, way more than anyone has won
+const TOPPLES_LIMIT = 100;
+
+// Totals and topples in one round trip through the indexer's GraphQL schema
+const ACCOUNT_QUERY = /* GraphQL */ `
+  query AccountHistory($address: String!, $limit: Int!) {
+    account(address: $address) {
+      spent
+      claimed
+      won
+      topples(limit: $limit) {
+        round {
+          id
+        }
+        toppler {
+          address
+        }
+        potWon
+        height
+        timestamp
+        transactionHash
+      }
+    }
+  }
+`;
+
+type IndexedAccount = {
+  spent: string;
+  claimed: string;
+  won: string;
+  topples: {
+    round: { id: number };
+    toppler: { address: Address };
+    potWon: string;
+    height: number;
+    timestamp: number;
+    transactionHash: Hex;
+  }[];
+};
+
+const sum = (amounts: bigint[]) => amounts.reduce((total, amount) => total + amount, 0n);
+
+/**
+ * What an address put into and took out of the tower, as recorded by its events. Queried from the tower indexer's
+ * GraphQL endpoint when `indexerUrl` is set, otherwise read from the address's own `LobsterPlaced` /
+ * `EarningsClaimed` / `TowerToppled` logs.
+ */
+export const useAccountHistory = (address: Address | undefined) => {
+  const { indexerUrl } = scaffoldConfig;
+
+  const indexed = useQuery({
+    queryKey: ["towerAccount", indexerUrl, address],
+    queryFn: async (): Promise<AccountHistory> => {
+      const response = await fetch(`${indexerUrl}/graphql`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: ACCOUNT_QUERY, variables: { address, limit: TOPPLES_LIMIT } }),
+      });
+      if (!response.ok) throw new Error(`Indexer responded with ${response.status}`);
+      const { data, errors } = (await response.json()) as {
+        data?: { account: IndexedAccount };
+        errors?: { message: string }[];
+      };
+      if (!data) throw new Error(errors?.[0]?.message ?? "Indexer returned no data");
+
+      const { spent, claimed, won, topples } = data.account;
+      return {
+        spent: BigInt(spent),
+        claimed: BigInt(claimed),
+        won: BigInt(won),
+        topples: topples.map(({ round, toppler, potWon, ...topple }) => ({
+          ...topple,
+          round: round.id,
+          toppler: toppler.address,
+          potWon: BigInt(potWon),
+        })),
+      };
+    },
+    enabled: !!indexerUrl && !!address,
+    refetchInterval: scaffoldConfig.pollingInterval,
+  });
+
+  const fromEvents = !indexerUrl && !!address;
+  const entries = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "LobsterPlaced",
+    filters: { owner: address },
+    watch: true,
+    enabled: fromEvents,
+  });
+  const claims = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "EarningsClaimed",
+    filters: { user: address },
+    watch: true,
+    enabled: fromEvents,
+  });
+  const topples = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "TowerToppled",
+    filters: { toppler: address },
+    blockData: true,
+    watch: true,
+    enabled: fromEvents,
+  });
+
+  const data = useMemo((): AccountHistory | undefined => {
+    if (indexerUrl) return indexed.data;
+    if (!entries.data || !claims.data || !topples.data) return undefined;
+
+    // Logs whose arguments didn't decode are left out, which narrows the rest to the ABI's argument types
+    const accountTopples = topples.data.flatMap(({ args, blockData, transactionHash }): AccountTopple[] => {
+      const { round, toppler, potWon, height } = args;
+      if (round === undefined || !toppler || potWon === undefined || height === undefined) return [];
+      return [
+        {
+          round: Number(round),
+          toppler,
+          potWon,
+          height: Number(height),
+          timestamp: Number(blockData.timestamp),
+          transactionHash,
+        },
+      ];
+    });
+    return {
+      spent: sum(entries.data.flatMap(({ args: { amount } }) => (amount !== undefined ? [amount] : []))),
+      claimed: sum(claims.data.flatMap(({ args: { amount } }) => (amount !== undefined ? [amount] : []))),
+      won: sum(accountTopples.map(({ potWon }) => potWon)),
+      topples: accountTopples,
+    };
+  }, [indexerUrl, indexed.data, entries.data, claims.data, topples.data]);
+
+  return {
+    data,
+    isLoading: indexerUrl ? indexed.isLoading : entries.isLoading || claims.isLoading || topples.isLoading,
+    error: indexed.error ?? entries.error ?? claims.error ?? topples.error,
+  };
+};
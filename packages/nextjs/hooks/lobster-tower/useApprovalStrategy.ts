@@ -0,0 +1,14 @@
+import { useLocalStorage } from "usehooks-ts";
+import { ApprovalStrategy } from "~~/utils/lobster-tower/approval";
+
+const APPROVAL_STRATEGY_STORAGE_KEY = "lobsterTower.approvalStrategy";
+
+/** How much CLAWD approvals grant, remembered per browser. Exactly one entry until changed */
+export const useApprovalStrategy = () => {
+  const [strategy, setStrategy] = useLocalStorage<ApprovalStrategy>(
+    APPROVAL_STRATEGY_STORAGE_KEY,
+    { kind: "exact" },
+    { initializeWithValue: false },
+  );
+  return { strategy, setStrategy };
+};
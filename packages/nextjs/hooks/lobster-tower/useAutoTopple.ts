@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef } from "react";
+import { ToppleCheck } from "./useToppleChecks";
+import { useToppleSession } from "./useToppleSession";
+import { useLocalStorage } from "usehooks-ts";
+import { Hex } from "viem";
+import { useAccount } from "wagmi";
+import { TowerBundlerClient } from "~~/services/web3/smartAccount";
+import { notification } from "~~/utils/scaffold-eth";
+
+const AUTO_TOPPLE_STORAGE_KEY = "lobsterTower.autoTopple";
+const BURNER_WALLET_ID = "burnerWallet";
+
+const showBrowserNotification = (body: string) => {
+  if (typeof window === "undefined" || !("Notification" in window) || Notification.permission !== "granted") return;
+  new Notification("🦞 Lobster Tower", { body });
+};
+
+/**
+ * Opt-in auto-topple: as soon as a winning roll shows up, the `topple` transaction is submitted without waiting for a
+ * click, without a prompt when either of these signs it:
+ * - the burner wallet, whose key lives in the browser
+ * - a topple session key (see `useToppleSession`), which turning auto-topple on asks the player to approve once
+ *
+ * Other wallets get the confirmation request right away and the player still has to approve it, which is all that's
+ * left when the tower or the app config has no topple sessions. If submission fails, the player gets an in-app and a
+ * browser notification to topple by hand.
+ *
+ * This runs while the page is open (including in a background tab), it can't topple once the tab is closed.
+ */
+export const useAutoTopple = ({
+  toppleChecks,
+  topple,
+  isToppling,
+}: {
+  toppleChecks: ToppleCheck[];
+  /** Sends from `bundlerClient`'s smart account when given */
+  topple: (positionId: bigint, reveal: Hex, bundlerClient?: TowerBundlerClient) => Promise<boolean>;
+  isToppling: boolean;
+}) => {
+  const { connector } = useAccount();
+  const session = useToppleSession();
+  const [isEnabled, setIsEnabled] = useLocalStorage<boolean>(AUTO_TOPPLE_STORAGE_KEY, false, {
+    initializeWithValue: false,
+  });
+  const attemptedPositionIds = useRef(new Set<bigint>());
+
+  const isBurner = connector?.id === BURNER_WALLET_ID;
+  const isSilent = isBurner || session.isActive;
+
+  const { isSupported: isSessionSupported, isActive: isSessionActive, authorize } = session;
+  const setAutoTopple = useCallback(
+    (enabled: boolean) => {
+      setIsEnabled(enabled);
+      if (!enabled) return;
+      if (!isBurner && isSessionSupported && !isSessionActive) {
+        authorize().catch(e => {
+          console.error("Topple session was not approved:", e);
+          notification.warning("Without a topple session your wallet asks you to confirm each topple");
+        });
+      }
+      if (typeof window === "undefined" || !("Notification" in window)) return;
+      // Browser notifications are only the fallback, auto-topple still works with in-app ones if this is refused
+      if (Notification.permission === "default") Notification.requestPermission().catch(() => undefined);
+    },
+    [setIsEnabled, isBurner, isSessionSupported, isSessionActive, authorize],
+  );
+
+  useEffect(() => {
+    if (!isEnabled || isToppling) return;
+    const winner = toppleChecks.find(check => check.winner && !attemptedPositionIds.current.has(check.positionId));
+    if (!winner) return;
+
+    attemptedPositionIds.current.add(winner.positionId);
+    topple(winner.positionId, winner.reveal, session.bundlerClient).then(toppled => {
+      if (toppled) {
+        if (document.hidden) showBrowserNotification(`Lobster #${winner.positionId} toppled the tower! 🌊`);
+        return;
+      }
+      const message = `Auto-topple for lobster #${winner.positionId} failed. Topple it by hand, ${winner.blocksLeft} blocks left!`;
+      notification.error(message, { duration: 15_000 });
+      showBrowserNotification(message);
+    });
+  }, [isEnabled, isToppling, toppleChecks, topple, session.bundlerClient]);
+
+  return {
+    isAutoToppleEnabled: isEnabled,
+    isAutoToppleSilent: isSilent,
+    isAutoToppleSession: !isBurner && session.isActive,
+    setAutoTopple,
+  };
+};
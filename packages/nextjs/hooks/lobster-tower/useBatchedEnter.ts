@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Hex, decodeEventLog, isAddressEqual } from "viem";
+import { useAccount, useCapabilities, useSendCalls } from "wagmi";
+import { waitForCallsStatus } from "wagmi/actions";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { wagmiConfig } from "~~/services/web3/wagmiConfig";
+import { AllowedChainIds, notification } from "~~/utils/scaffold-eth";
+import { getParsedErrorWithAllAbis } from "~~/utils/scaffold-eth/contract";
+
+/**
+ * One or more `enterTower` calls, optionally preceded by a CLAWD `approve`, as one atomic EIP-5792 batch
+ * (`wallet_sendCalls`), for wallets that report atomic support for the target network. `isSupported` stays false while
+ * capabilities load and for wallets without it, which keep the two-step approve then enter flow.
+ */
+export const useBatchedEnter = () => {
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const { data: capabilities } = useCapabilities({
+    chainId: targetNetwork.id,
+    query: { enabled: !!address, retry: false },
+  });
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const { data: clawdContract } = useDeployedContractInfo({ contractName: "CLAWD" });
+  const { sendCallsAsync } = useSendCalls();
+  const [isPending, setIsPending] = useState(false);
+
+  // "ready" means the wallet can upgrade the account to batch, and asks for it as part of the prompt
+  const atomicStatus = capabilities?.atomic?.status;
+  const isSupported = (atomicStatus === "supported" || atomicStatus === "ready") && !!towerContract && !!clawdContract;
+
+  /**
+   * Resolves with the new position ids, in entry order, once the batch is included. When given, `approveAmount` must
+   * cover every entry.
+   */
+  const batchEnter = async (commits: Hex[], approveAmount?: bigint) => {
+    if (!towerContract || !clawdContract) throw new Error("Contracts not loaded");
+
+    setIsPending(true);
+    let notificationId = notification.loading("Awaiting for user confirmation");
+    try {
+      const { id } = await sendCallsAsync({
+        chainId: targetNetwork.id,
+        forceAtomic: true,
+        calls: [
+          ...(approveAmount !== undefined
+            ? [
+                {
+                  to: clawdContract.address,
+                  abi: clawdContract.abi,
+                  functionName: "approve",
+                  args: [towerContract.address, approveAmount],
+                } as const,
+              ]
+            : []),
+          ...commits.map(
+            commit =>
+              ({
+                to: towerContract.address,
+                abi: towerContract.abi,
+                functionName: "enterTower",
+                args: [commit],
+              }) as const,
+          ),
+        ],
+      });
+      notification.remove(notificationId);
+
+      notificationId = notification.loading("Waiting for the batch to complete.");
+      const { status, receipts } = await waitForCallsStatus(wagmiConfig, { id });
+      notification.remove(notificationId);
+      if (status !== "success" || !receipts) throw new Error("Enter batch failed");
+
+      // Call bundle receipts only carry address, data and topics for each log
+      const positionIds = receipts
+        .flatMap(receipt => receipt.logs)
+        .filter(log => isAddressEqual(log.address, towerContract.address))
+        .flatMap(log => {
+          const topics = log.topics as [Hex, ...Hex[]];
+          const event = decodeEventLog({ abi: towerContract.abi, data: log.data, topics, strict: false });
+          return event.eventName === "LobsterPlaced" && event.args.positionId !== undefined
+            ? [event.args.positionId]
+            : [];
+        });
+      if (positionIds.length !== commits.length) throw new Error("LobsterPlaced events missing from receipts");
+
+      notification.success(
+        commits.length > 1 ? `Stacked ${commits.length} lobsters in one go!` : "Approved and stacked in one go!",
+        { icon: "🎉" },
+      );
+      return positionIds;
+    } catch (error) {
+      notification.remove(notificationId);
+      notification.error(getParsedErrorWithAllAbis(error, targetNetwork.id as AllowedChainIds));
+      throw error;
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return { isSupported, isPending, batchEnter };
+};
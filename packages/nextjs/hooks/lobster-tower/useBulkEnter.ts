@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useBatchedEnter } from "./useBatchedEnter";
+import { useRevealDerivation } from "./useRevealDerivation";
+import { useSmartAccount, useTowerAccount } from "./useSmartAccount";
+import { Hash, Hex, encodeFunctionData, isAddressEqual, parseEventLogs } from "viem";
+import { useAccount, usePublicClient, useWriteContract } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork, useTransactor } from "~~/hooks/scaffold-eth";
+import { notification } from "~~/utils/scaffold-eth";
+
+export const MAX_BULK_ENTRIES = 10;
+
+export type BulkEntryStatus = "signing" | "ready" | "submitted" | "placed" | "failed";
+
+export type BulkEntry = {
+  status: BulkEntryStatus;
+  /** Shared by every entry of a batch or UserOperation */
+  transactionHash?: Hash;
+  positionId?: bigint;
+};
+
+/**
+ * Stacks several lobsters in one go, each with its own derived reveal. The entries go out as one UserOperation in
+ * gasless mode, as one EIP-5792 batch when the wallet supports it, and otherwise as separate transactions on
+ * consecutive nonces, all signed before the first one is mined. Every reveal is saved under its commit before anything
+ * is sent, then bound to the position whose on-chain commit matches it as soon as the receipt carrying that position
+ * lands, and `entries` tracks each lobster from signing to placed.
+ */
+export const useBulkEnter = ({
+  storePendingReveal,
+  bindReveal,
+}: {
+  storePendingReveal: (commit: Hex, reveal: Hex) => Promise<void>;
+  bindReveal: (commit: Hex, positionId: bigint) => Promise<void>;
+}) => {
+  const { address } = useAccount();
+  const towerAccount = useTowerAccount();
+  const { bundlerClient } = useSmartAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const { deriveReveals } = useRevealDerivation();
+  const { isSupported: isBatchSupported, batchEnter } = useBatchedEnter();
+  const { writeContractAsync } = useWriteContract();
+  const writeTx = useTransactor();
+  const [entries, setEntries] = useState<BulkEntry[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const updateEntries = (indexes: number[], update: Partial<BulkEntry>) =>
+    setEntries(current => current.map((entry, i) => (indexes.includes(i) ? { ...entry, ...update } : entry)));
+
+  /**
+   * @param approveAmount - only used by EIP-5792 batches, which approve in the same batch. Other paths expect the
+   * allowance to already cover every entry.
+   */
+  const enterMany = async (count: number, approveAmount?: bigint) => {
+    if (!address || !towerAccount || !towerContract || !publicClient) {
+      throw new Error("Wallet or LobsterTower is not ready");
+    }
+    const tower = { address: towerContract.address, abi: towerContract.abi } as const;
+    const indexes = Array.from({ length: count }, (_, i) => i);
+
+    const placedPositionIds = (logs: Parameters<typeof parseEventLogs>[0]["logs"]) =>
+      parseEventLogs({
+        abi: tower.abi,
+        eventName: "LobsterPlaced",
+        logs: logs.filter(log => isAddressEqual(log.address, tower.address)),
+      }).map(log => log.args.positionId);
+
+    // Pairs each new position with its reveal through the commit the tower stored for it, returns how many were placed
+    const bindPlaced = async (commits: Hex[], positionIds: bigint[]) => {
+      const commitInfos = await Promise.all(
+        positionIds.map(positionId =>
+          publicClient.readContract({ ...tower, functionName: "getCommitInfo", args: [positionId] }),
+        ),
+      );
+      let placed = 0;
+      for (const [j, positionId] of positionIds.entries()) {
+        const i = commits.indexOf(commitInfos[j][0]);
+        if (i === -1) continue;
+        await bindReveal(commits[i], positionId);
+        updateEntries([i], { status: "placed", positionId });
+        placed++;
+      }
+      return placed;
+    };
+
+    // One UserOperation from the smart account carrying every entry
+    const enterWithUserOperation = async (commits: Hex[]) => {
+      updateEntries(indexes, { status: "submitted" });
+      let positionIds: bigint[] = [];
+      const transactionHash = await writeTx(
+        () =>
+          bundlerClient!.sendUserOperation({
+            calls: commits.map(commit => ({
+              to: tower.address,
+              data: encodeFunctionData({ abi: tower.abi, functionName: "enterTower", args: [commit] }),
+            })),
+          }),
+        { bundlerClient, onBlockConfirmation: receipt => (positionIds = placedPositionIds(receipt.logs)) },
+      );
+      updateEntries(indexes, { transactionHash });
+      return bindPlaced(commits, positionIds);
+    };
+
+    // Each entry in its own transaction on the next nonce, so the wallet doesn't wait for one to mine before the next
+    const enterWithSequentialNonces = async (commits: Hex[]) => {
+      const firstNonce = await publicClient.getTransactionCount({ address, blockTag: "pending" });
+      const transactionHashes: Hash[] = [];
+      for (const [i, commit] of commits.entries()) {
+        try {
+          const transactionHash = await writeContractAsync({
+            ...tower,
+            functionName: "enterTower",
+            args: [commit],
+            nonce: firstNonce + i,
+            chainId: targetNetwork.id,
+          });
+          transactionHashes.push(transactionHash);
+          updateEntries([i], { status: "submitted", transactionHash });
+        } catch (e) {
+          // A skipped nonce would hold every later transaction back, so stop at the first one that isn't sent
+          console.error(`Entry ${i + 1} was not sent:`, e);
+          updateEntries(indexes.slice(i), { status: "failed" });
+          break;
+        }
+      }
+
+      // Each receipt is handled as it lands, so a dropped or reverted entry doesn't hold back the others' reveals
+      const results = await Promise.allSettled(
+        transactionHashes.map(async (hash, i) => {
+          const receipt = await publicClient.waitForTransactionReceipt({ hash });
+          if (receipt.status === "reverted") throw new Error(`Entry ${i + 1} reverted in ${hash}`);
+          return bindPlaced(commits, placedPositionIds(receipt.logs));
+        }),
+      );
+      let placed = 0;
+      results.forEach((result, i) => {
+        if (result.status === "fulfilled") {
+          placed += result.value;
+        } else {
+          console.error(`Entry ${i + 1} was not placed:`, result.reason);
+          updateEntries([i], { status: "failed" });
+        }
+      });
+      return placed;
+    };
+
+    setIsRunning(true);
+    setEntries(indexes.map(() => ({ status: "signing" })));
+    try {
+      // 1. Derive a reveal for each entry, all from the session's reveal key
+      const reveals = await deriveReveals(count);
+      updateEntries(indexes, { status: "ready" });
+      const commits = reveals.map(({ commit }) => commit);
+
+      // 2. Keep every reveal in the vault under its commit before anything is sent
+      await Promise.all(reveals.map(({ commit, reveal }) => storePendingReveal(commit, reveal)));
+
+      // 3. Send every entry, binding each new position to its reveal
+      let placed: number;
+      if (bundlerClient) {
+        placed = await enterWithUserOperation(commits);
+      } else if (isBatchSupported) {
+        updateEntries(indexes, { status: "submitted" });
+        placed = await bindPlaced(commits, await batchEnter(commits, approveAmount));
+      } else {
+        placed = await enterWithSequentialNonces(commits);
+      }
+
+      if (placed < count) {
+        notification.error(`Only ${placed} of ${count} lobsters were stacked`);
+      } else if (!bundlerClient && !isBatchSupported) {
+        notification.success(`Stacked ${count} lobsters!`, { icon: "🎉" });
+      }
+    } catch (e) {
+      setEntries(current => current.map(entry => (entry.status === "placed" ? entry : { ...entry, status: "failed" })));
+      throw e;
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return { entries, isRunning, enterMany, reset: () => setEntries([]) };
+};
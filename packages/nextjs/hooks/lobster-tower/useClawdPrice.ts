@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+const CLAWD_PRICE_URL = "https://api.dexscreener.com/latest/dex/tokens/0x9f86dB9fc6f7c9408e8Fda3Ff8ce4e78ac7a6b07";
+
+/** CLAWD price in USD from DexScreener, null until (or unless) it loads */
+export const useClawdPrice = () => {
+  const [clawdPrice, setClawdPrice] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetch(CLAWD_PRICE_URL)
+      .then(r => r.json())
+      .then(d => {
+        const p = d?.pairs?.[0]?.priceUsd;
+        if (p) setClawdPrice(parseFloat(p));
+      })
+      .catch(() => {});
+  }, []);
+
+  return clawdPrice;
+};
@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+
+// How far back the indexer's daily stats are averaged
+const RATE_WINDOW_DAYS = 7;
+
+/**
+ * Observed entries per hour. The average over the last week of the indexer's daily stats when `indexerUrl` is set,
+ * otherwise the lifetime average since the first lobster.
+ */
+export const useEntryRate = () => {
+  const { indexerUrl } = scaffoldConfig;
+
+  const indexed = useQuery({
+    queryKey: ["towerEntryRate", indexerUrl],
+    queryFn: async () => {
+      const response = await fetch(`${indexerUrl}/stats/daily?limit=${RATE_WINDOW_DAYS}`);
+      if (!response.ok) throw new Error(`Indexer responded with ${response.status}`);
+      const { items } = (await response.json()) as { items: { day: string; entries: number }[] };
+      if (items.length === 0) return 0;
+      // Days come newest first and quiet days are skipped, so measure from the start of the oldest one
+      const since = Date.parse(`${items[items.length - 1].day}T00:00:00Z`);
+      const hours = (Date.now() - since) / 3_600_000;
+      return items.reduce((total, { entries }) => total + entries, 0) / hours;
+    },
+    enabled: !!indexerUrl,
+    refetchInterval: 60_000,
+  });
+
+  const { data: lobsterCount } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "nextLobsterId",
+    query: { enabled: !indexerUrl },
+  });
+  const { data: firstLobster } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "lobsters",
+    args: [1n],
+    query: { enabled: !indexerUrl },
+  });
+
+  if (indexerUrl) return indexed.data;
+  if (lobsterCount === undefined || firstLobster === undefined) return undefined;
+  if (lobsterCount === 0n) return 0;
+  const hours = (Date.now() / 1000 - Number(firstLobster[1])) / 3600;
+  return hours > 0 ? Number(lobsterCount) / hours : 0;
+};
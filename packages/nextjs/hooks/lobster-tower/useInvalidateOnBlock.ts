@@ -0,0 +1,22 @@
+import { useEffect, useRef } from "react";
+import { QueryKey, useQueryClient } from "@tanstack/react-query";
+import { useBlockNumber } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+/**
+ * Refetches the query under `queryKey` on every new block of the target network, like `watch: true` does for a single
+ * scaffold read.
+ */
+export const useInvalidateOnBlock = (queryKey: QueryKey) => {
+  const { targetNetwork } = useTargetNetwork();
+  const queryClient = useQueryClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+
+  // wagmi hands out a new key array every render, only a new block should trigger a refetch
+  const latestQueryKey = useRef(queryKey);
+  latestQueryKey.current = queryKey;
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: latestQueryKey.current });
+  }, [queryClient, blockNumber]);
+};
@@ -0,0 +1,123 @@
+import { useMemo } from "react";
+import { Page } from "./useTowerRounds";
+import { Leaderboard, RankedAccount, rankLeaderboard } from "@se-2/sdk";
+import { useQuery } from "@tanstack/react-query";
+import { useScaffoldEventHistory } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+
+export type { Leaderboard };
+
+export type LeaderboardEntry = RankedAccount;
+
+type IndexedEntry = Omit<LeaderboardEntry, "spent" | "claimed" | "won"> & {
+  spent: string;
+  claimed: string;
+  won: string;
+};
+
+type LogPosition = { blockNumber: bigint; logIndex: number };
+
+const isBefore = (a: LogPosition, b: LogPosition) =>
+  a.blockNumber < b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex < b.logIndex);
+
+/**
+ * Picks what the indexer counts for a round out of the full event history: the lobsters stacked in it, the claims
+ * made while it stood (after the previous round's topple, up to its own) and its own topple.
+ */
+const roundFilters = (round: number | undefined, topples: (LogPosition & { args: { round?: bigint } })[]) => {
+  const toppleOf = (r: number) => topples.find(({ args }) => Number(args.round) === r);
+  const from = round !== undefined && round > 0 ? toppleOf(round - 1) : null;
+  const to = round !== undefined ? toppleOf(round) : undefined;
+  return {
+    inRound: ({ args }: { args: { round?: bigint } }) => round === undefined || Number(args.round) === round,
+    claimedInRound: (claim: LogPosition) =>
+      round === undefined || (from !== undefined && (!from || isBefore(from, claim)) && (!to || !isBefore(to, claim))),
+  };
+};
+
+/**
+ * A page of one leaderboard, all-time or for a single round. Served by the tower indexer when `indexerUrl` is set,
+ * otherwise ranked from the full event history.
+ */
+export const useLeaderboard = ({
+  board,
+  round,
+  limit,
+  offset,
+}: {
+  board: Leaderboard;
+  round?: number;
+  limit: number;
+  offset: number;
+}) => {
+  const { indexerUrl } = scaffoldConfig;
+
+  const indexed = useQuery({
+    queryKey: ["towerLeaderboard", indexerUrl, board, round, limit, offset],
+    queryFn: async (): Promise<Page<LeaderboardEntry>> => {
+      const roundParam = round !== undefined ? `&round=${round}` : "";
+      const response = await fetch(`${indexerUrl}/leaderboards/${board}?limit=${limit}&offset=${offset}${roundParam}`);
+      if (!response.ok) throw new Error(`Indexer responded with ${response.status}`);
+      const { items, pagination } = (await response.json()) as {
+        items: IndexedEntry[];
+        pagination: { total: number };
+      };
+      return {
+        items: items.map(entry => ({
+          ...entry,
+          spent: BigInt(entry.spent),
+          claimed: BigInt(entry.claimed),
+          won: BigInt(entry.won),
+        })),
+        total: pagination.total,
+      };
+    },
+    enabled: !!indexerUrl,
+    refetchInterval: scaffoldConfig.pollingInterval,
+  });
+
+  const fromEvents = !indexerUrl;
+  const entries = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "LobsterPlaced",
+    watch: true,
+    enabled: fromEvents,
+  });
+  const claims = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "EarningsClaimed",
+    watch: true,
+    enabled: fromEvents,
+  });
+  const topples = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "TowerToppled",
+    watch: true,
+    enabled: fromEvents,
+  });
+
+  const data = useMemo((): Page<LeaderboardEntry> | undefined => {
+    if (indexerUrl) return indexed.data;
+    if (!entries.data || !claims.data || !topples.data) return undefined;
+    const { inRound, claimedInRound } = roundFilters(round, topples.data);
+    // Logs whose arguments didn't decode are left out, which narrows the rest to the ABI's argument types
+    const ranked = rankLeaderboard(board, {
+      entries: entries.data
+        .filter(inRound)
+        .flatMap(({ args: { owner, amount } }) => (owner && amount !== undefined ? [{ owner, amount }] : [])),
+      claims: claims.data
+        .filter(claimedInRound)
+        .flatMap(({ args: { user, amount } }) => (user && amount !== undefined ? [{ user, amount }] : [])),
+      topples: topples.data
+        .filter(inRound)
+        .flatMap(({ args: { toppler, potWon } }) => (toppler && potWon !== undefined ? [{ toppler, potWon }] : [])),
+    });
+    return { items: ranked.slice(offset, offset + limit), total: ranked.length };
+  }, [indexerUrl, indexed.data, entries.data, claims.data, topples.data, board, round, limit, offset]);
+
+  return {
+    data,
+    isLoading: indexerUrl ? indexed.isLoading : entries.isLoading || claims.isLoading || topples.isLoading,
+    error: indexed.error ?? entries.error ?? claims.error ?? topples.error,
+  };
+};
@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { useInvalidateOnBlock } from "./useInvalidateOnBlock";
+import { useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+export type PositionEarnings = {
+  positionId: bigint;
+  round: bigint;
+  /** Unix seconds */
+  enteredAt: bigint;
+  /** Lifetime earnings: claimed + unclaimed */
+  accrued: bigint;
+  claimed: bigint;
+  unclaimed: bigint;
+};
+
+type LobsterStruct = readonly [string, bigint, bigint, bigint, bigint];
+
+/**
+ * Loads `lobsters(id)` and `getUnclaimedForPosition(id)` for every position in a single multicall and refreshes it on
+ * every new block. Positions whose calls failed are left out.
+ */
+export const usePositionEarnings = (positionIds: readonly bigint[] | undefined) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const ids = useMemo(() => positionIds ?? [], [positionIds]);
+
+  const {
+    data: results,
+    isLoading,
+    error,
+    queryKey,
+  } = useReadContracts({
+    contracts: ids.flatMap(positionId =>
+      (["lobsters", "getUnclaimedForPosition"] as const).map(functionName => ({
+        address: towerContract?.address,
+        abi: towerContract?.abi,
+        functionName,
+        args: [positionId],
+        chainId: targetNetwork.id,
+      })),
+    ),
+    query: { enabled: !!towerContract && ids.length > 0 },
+  });
+
+  useInvalidateOnBlock(queryKey);
+
+  const positions = useMemo(
+    () =>
+      ids.flatMap((positionId, i): PositionEarnings[] => {
+        const lobster = results?.[i * 2];
+        const unclaimed = results?.[i * 2 + 1];
+        if (lobster?.status !== "success" || unclaimed?.status !== "success") return [];
+        const [, enteredAt, round, , claimed] = lobster.result as LobsterStruct;
+        return [
+          {
+            positionId,
+            round,
+            enteredAt,
+            claimed,
+            unclaimed: unclaimed.result as bigint,
+            accrued: claimed + (unclaimed.result as bigint),
+          },
+        ];
+      }),
+    [ids, results],
+  );
+
+  return { positions, isLoading, error };
+};
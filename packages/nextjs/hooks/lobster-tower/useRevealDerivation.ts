@@ -0,0 +1,140 @@
+import { useCallback, useRef } from "react";
+import { useTowerAccount } from "./useSmartAccount";
+import { computeCommit } from "@se-2/sdk";
+import { useQuery } from "@tanstack/react-query";
+import { Hex, isAddressEqual } from "viem";
+import { useAccount, usePublicClient, useSignTypedData } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  findReveal,
+  getRevealKeyTypedData,
+  newRevealSalts,
+  recoveryNonces,
+  revealFromKey,
+  revealKeyNonce,
+  signatureToRevealKey,
+} from "~~/utils/lobster-tower/derivedReveal";
+import { notification } from "~~/utils/scaffold-eth";
+
+// Passkey and smart wallets sign through WebAuthn or ERC-1271, which gives a different signature every time
+const NON_DETERMINISTIC_CONNECTORS = ["baseAccount", "coinbaseWalletSDK", "safe"];
+// EIP-7702 delegated EOAs have code but still sign with their own key
+const DELEGATION_PREFIX = "0xef0100";
+
+/**
+ * Derives topple reveals from a reveal key instead of random bytes, so a reveal can be re-derived by signing again on
+ * any device. The key is the hash of one EIP-712 signature per session and nonce, the nonce being the week the reveal
+ * was derived in. Each reveal hashes the key with a salt made of the second it was derived in and a random slot, so
+ * recovery only needs the commit block's timestamp and never depends on the index a position lands at.
+ *
+ * `isRecoverable` is false for wallets whose signatures aren't deterministic. Their reveals still work, but only
+ * through the vault of the browser that entered.
+ */
+export const useRevealDerivation = () => {
+  const account = useTowerAccount();
+  const { address: signer, connector } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const { signTypedDataAsync } = useSignTypedData();
+  const revealKey = useRef<{ id: string; key: Hex }>(undefined);
+  const verifiedTower = useRef<string>(undefined);
+
+  const { data: isRecoverable } = useQuery({
+    queryKey: ["revealRecoverable", targetNetwork.id, signer, connector?.id],
+    queryFn: async () => {
+      if (NON_DETERMINISTIC_CONNECTORS.includes(connector!.id)) return false;
+      const code = await publicClient!.getCode({ address: signer! });
+      return !code || code === "0x" || code.startsWith(DELEGATION_PREFIX);
+    },
+    enabled: !!signer && !!connector && !!publicClient,
+    staleTime: Infinity,
+  });
+
+  // Signed once per account, tower and nonce, then kept in memory for the session
+  const getRevealKey = useCallback(
+    async (nonce: bigint) => {
+      if (!account || !towerContract) throw new Error("Wallet or LobsterTower is not ready");
+      const id = `${targetNetwork.id}:${towerContract.address}:${account}:${nonce}`;
+      if (revealKey.current?.id === id) return revealKey.current.key;
+
+      const signature = await signTypedDataAsync(
+        getRevealKeyTypedData({ chainId: targetNetwork.id, tower: towerContract.address, account, nonce }),
+      );
+      revealKey.current = { id, key: signatureToRevealKey(signature) };
+      if (isRecoverable === false) {
+        notification.warning(
+          "This wallet signs differently every time, so rolls can't be recovered on another device. Keep this browser until they settle.",
+        );
+      }
+      return revealKey.current.key;
+    },
+    [account, towerContract, signTypedDataAsync, targetNetwork.id, isRecoverable],
+  );
+
+  /**
+   * Reveals and their commits for `count` new entries, all from a single signature. The first time per tower, the
+   * commit is checked against the tower's own `computeCommit`, so a mismatch fails here instead of at topple time.
+   */
+  const deriveReveals = useCallback(
+    async (count = 1) => {
+      if (!towerContract || !publicClient) throw new Error("Wallet or LobsterTower is not ready");
+      const now = Date.now();
+      const key = await getRevealKey(revealKeyNonce(BigInt(Math.floor(now / 1000))));
+      const reveals = newRevealSalts(count, now).map(salt => {
+        const reveal = revealFromKey(key, salt);
+        return { salt, reveal, commit: computeCommit(reveal) };
+      });
+
+      const towerId = `${targetNetwork.id}:${towerContract.address}`;
+      if (verifiedTower.current !== towerId) {
+        const onChainCommit = await publicClient.readContract({
+          address: towerContract.address,
+          abi: towerContract.abi,
+          functionName: "computeCommit",
+          args: [reveals[0].reveal],
+        });
+        if (onChainCommit !== reveals[0].commit) throw new Error("LobsterTower commits to reveals differently");
+        verifiedTower.current = towerId;
+      }
+      return reveals;
+    },
+    [towerContract, publicClient, getRevealKey, targetNetwork.id],
+  );
+
+  /**
+   * Re-derives the reveal of one of the account's positions from its commit block's timestamp.
+   */
+  const recoverReveal = useCallback(
+    async (positionId: bigint) => {
+      if (!account || !towerContract || !publicClient) throw new Error("Wallet or LobsterTower is not ready");
+
+      const [commitHash, commitBlock, committer] = await publicClient.readContract({
+        address: towerContract.address,
+        abi: towerContract.abi,
+        functionName: "getCommitInfo",
+        args: [positionId],
+      });
+      if (!isAddressEqual(committer, account)) throw new Error(`Lobster #${positionId} doesn't belong to this account`);
+
+      const { timestamp } = await publicClient.getBlock({ blockNumber: commitBlock });
+      let reveal: Hex | undefined;
+      // Only a commit near an epoch boundary needs a second signature
+      for (const nonce of recoveryNonces(timestamp)) {
+        reveal = await findReveal(await getRevealKey(nonce), nonce, commitHash, timestamp);
+        if (reveal) break;
+      }
+      if (!reveal) {
+        throw new Error(
+          isRecoverable === false
+            ? "This wallet signs differently every time, so its rolls can't be recovered"
+            : `Lobster #${positionId} wasn't committed with a reveal derived from this wallet`,
+        );
+      }
+      return reveal;
+    },
+    [account, towerContract, publicClient, getRevealKey, isRecoverable],
+  );
+
+  return { deriveReveals, recoverReveal, isRecoverable };
+};
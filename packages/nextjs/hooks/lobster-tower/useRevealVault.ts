@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useInvalidateOnBlock } from "./useInvalidateOnBlock";
+import { useTowerAccount } from "./useSmartAccount";
+import { Hex } from "viem";
+import { useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  PendingReveal,
+  RevealScope,
+  StoredReveal,
+  bindPendingReveal,
+  deletePendingReveal,
+  deleteReveal,
+  loadPendingReveals,
+  loadReveals,
+  savePendingReveal,
+  saveReveal,
+} from "~~/utils/lobster-tower/revealVault";
+
+// Only the most recent entries can still be inside REVEAL_WINDOW, so that's all we look at for missing reveals
+const RECOVERY_LOOKBACK = 20;
+// A pending reveal whose commit hasn't shown up by now belongs to an entry that was never mined, or to one whose
+// REVEAL_WINDOW ran out long ago
+const PENDING_REVEAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+type CommitInfo = readonly [Hex, bigint, string, boolean, boolean];
+
+/**
+ * Persists topple reveals for the tower account (see `useTowerAccount`) in the encrypted IndexedDB vault and reports which of
+ * them still belong to a live commit (committed, not revealed and still inside REVEAL_WINDOW according
+ * to `getCommitInfo`). Reveals for commits that were revealed or expired are pruned from the vault.
+ * Live commits of the account that have no reveal in this vault are reported as `missingRevealIds`.
+ *
+ * Entries save their reveal with `storePendingReveal` before they're sent and `bindReveal` it to the position from
+ * their LobsterPlaced log. A pending reveal that never got bound (the tab closed before the receipt) is bound here
+ * as soon as one of the account's commits matches it.
+ */
+export const useRevealVault = () => {
+  const account = useTowerAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const [storedReveals, setStoredReveals] = useState<StoredReveal[]>([]);
+  const [pendingReveals, setPendingReveals] = useState<PendingReveal[]>([]);
+
+  const scope = useMemo<RevealScope | undefined>(
+    () =>
+      account && towerContract ? { chainId: targetNetwork.id, contract: towerContract.address, account } : undefined,
+    [account, towerContract, targetNetwork.id],
+  );
+
+  const reload = useCallback(async () => {
+    if (!scope) {
+      setStoredReveals([]);
+      setPendingReveals([]);
+      return;
+    }
+    const [stored, pending] = await Promise.all([loadReveals(scope), loadPendingReveals(scope)]);
+    setStoredReveals(stored);
+    setPendingReveals(pending);
+  }, [scope]);
+
+  useEffect(() => {
+    reload().catch(e => console.error("Failed to load reveal vault:", e));
+  }, [reload]);
+
+  const { data: userPositions } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "getUserPositions",
+    args: [account],
+    query: { enabled: !!account },
+  });
+
+  const recoveryCandidates = useMemo(
+    () =>
+      (userPositions ?? [])
+        .slice(-RECOVERY_LOOKBACK)
+        .filter(positionId => !storedReveals.some(stored => stored.positionId === positionId)),
+    [userPositions, storedReveals],
+  );
+
+  const { data: commitInfos, queryKey } = useReadContracts({
+    contracts: [...storedReveals.map(({ positionId }) => positionId), ...recoveryCandidates].map(positionId => ({
+      address: towerContract?.address,
+      abi: towerContract?.abi,
+      functionName: "getCommitInfo",
+      args: [positionId],
+      chainId: targetNetwork.id,
+    })),
+    query: { enabled: !!towerContract && storedReveals.length + recoveryCandidates.length > 0 },
+  });
+
+  useInvalidateOnBlock(queryKey);
+
+  const { liveReveals, staleReveals, missingRevealIds, unboundReveals } = useMemo(() => {
+    const live: StoredReveal[] = [];
+    const stale: StoredReveal[] = [];
+    storedReveals.forEach((stored, i) => {
+      const info = commitInfos?.[i];
+      if (info?.status !== "success") return;
+      const [commitHash, , , revealed, expired] = info.result as CommitInfo;
+      // An empty commit means the RPC hasn't caught up with our entry yet, so keep it around
+      if (BigInt(commitHash) === 0n) return;
+      (revealed || expired ? stale : live).push(stored);
+    });
+    const missing: bigint[] = [];
+    const unbound: { commit: Hex; positionId: bigint }[] = [];
+    recoveryCandidates.forEach((positionId, i) => {
+      const info = commitInfos?.[storedReveals.length + i];
+      if (info?.status !== "success") return;
+      const [commitHash, , , revealed, expired] = info.result as CommitInfo;
+      if (BigInt(commitHash) === 0n) return;
+      if (pendingReveals.some(({ commit }) => commit === commitHash)) {
+        unbound.push({ commit: commitHash, positionId });
+      } else if (!revealed && !expired) {
+        missing.push(positionId);
+      }
+    });
+    return { liveReveals: live, staleReveals: stale, missingRevealIds: missing, unboundReveals: unbound };
+  }, [storedReveals, pendingReveals, recoveryCandidates, commitInfos]);
+
+  useEffect(() => {
+    if (!scope || staleReveals.length === 0) return;
+    Promise.all(staleReveals.map(({ positionId }) => deleteReveal(scope, positionId)))
+      .then(reload)
+      .catch(e => console.error("Failed to prune reveal vault:", e));
+  }, [scope, staleReveals, reload]);
+
+  useEffect(() => {
+    if (!scope || unboundReveals.length === 0) return;
+    Promise.all(unboundReveals.map(({ commit, positionId }) => bindPendingReveal(scope, commit, positionId)))
+      .then(reload)
+      .catch(e => console.error("Failed to bind pending reveals:", e));
+  }, [scope, unboundReveals, reload]);
+
+  useEffect(() => {
+    const expired = pendingReveals.filter(({ createdAt }) => Date.now() - createdAt > PENDING_REVEAL_TTL_MS);
+    if (!scope || expired.length === 0) return;
+    Promise.all(expired.map(({ commit }) => deletePendingReveal(scope, commit)))
+      .then(reload)
+      .catch(e => console.error("Failed to prune pending reveals:", e));
+  }, [scope, pendingReveals, reload]);
+
+  const storeReveal = useCallback(
+    async (positionId: bigint, reveal: Hex) => {
+      if (!scope) throw new Error("Reveal vault is not ready");
+      await saveReveal(scope, positionId, reveal);
+      await reload();
+    },
+    [scope, reload],
+  );
+
+  /** Saves a reveal under its commit, call it before sending the entry */
+  const storePendingReveal = useCallback(
+    async (commit: Hex, reveal: Hex) => {
+      if (!scope) throw new Error("Reveal vault is not ready");
+      await savePendingReveal(scope, commit, reveal);
+      await reload();
+    },
+    [scope, reload],
+  );
+
+  /** Moves the pending reveal for `commit` to the position its LobsterPlaced log names */
+  const bindReveal = useCallback(
+    async (commit: Hex, positionId: bigint) => {
+      if (!scope) throw new Error("Reveal vault is not ready");
+      await bindPendingReveal(scope, commit, positionId);
+      await reload();
+    },
+    [scope, reload],
+  );
+
+  const removeReveal = useCallback(
+    async (positionId: bigint) => {
+      if (!scope) return;
+      await deleteReveal(scope, positionId);
+      await reload();
+    },
+    [scope, reload],
+  );
+
+  return { liveReveals, missingRevealIds, storeReveal, storePendingReveal, bindReveal, removeReveal };
+};
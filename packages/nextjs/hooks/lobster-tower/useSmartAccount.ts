@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocalStorage } from "usehooks-ts";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+import { createTowerBundlerClient } from "~~/services/web3/smartAccount";
+
+const GASLESS_STORAGE_KEY = "lobsterTower.gasless";
+
+/**
+ * Gasless mode: the connected wallet's smart account (see services/web3/smartAccount.ts) acts on the tower through
+ * `scaffoldConfig.bundlerUrl`. Only offered when a bundler is configured, and remembered per browser once turned on.
+ * `bundlerClient` stays undefined while gasless mode is off or the smart account is still being derived.
+ *
+ * With `deriveWhenOff` the smart account is derived whatever the mode, and returned as `smartAccountClient`, for pages
+ * that manage the smart account itself rather than act through it.
+ */
+export const useSmartAccount = ({ deriveWhenOff = false }: { deriveWhenOff?: boolean } = {}) => {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: walletClient } = useWalletClient({ chainId: targetNetwork.id });
+  const [isGaslessEnabled, setIsGasless] = useLocalStorage(GASLESS_STORAGE_KEY, false, {
+    initializeWithValue: false,
+  });
+
+  const isAvailable = !!scaffoldConfig.bundlerUrl;
+  const isGasless = isAvailable && isGaslessEnabled;
+
+  const { data: bundlerClient } = useQuery({
+    queryKey: ["towerSmartAccount", targetNetwork.id, walletClient?.account.address],
+    queryFn: () =>
+      createTowerBundlerClient({ chain: targetNetwork, publicClient: publicClient!, walletClient: walletClient! }),
+    enabled: (isGasless || (isAvailable && deriveWhenOff)) && !!publicClient && !!walletClient,
+    // The account is a pure function of its owner, and clients don't survive structural sharing
+    staleTime: Infinity,
+    structuralSharing: false,
+  });
+
+  return {
+    isAvailable,
+    isGasless,
+    setIsGasless,
+    bundlerClient: isGasless ? bundlerClient : undefined,
+    smartAccountAddress: isGasless ? bundlerClient?.account.address : undefined,
+    smartAccountClient: isAvailable ? bundlerClient : undefined,
+  };
+};
+
+/**
+ * The address that enters, claims and topples: the smart account in gasless mode, the connected wallet otherwise.
+ * Undefined while the smart account is being derived, so nothing reads the wrong account's positions meanwhile.
+ */
+export const useTowerAccount = () => {
+  const { address } = useAccount();
+  const { isGasless, smartAccountAddress } = useSmartAccount();
+  return isGasless ? smartAccountAddress : address;
+};
@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { useInvalidateOnBlock } from "./useInvalidateOnBlock";
+import { Hex } from "viem";
+import { useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+export type PendingReveal = {
+  positionId: bigint;
+  reveal: Hex;
+};
+
+export type ToppleCheck = PendingReveal & {
+  winner: boolean;
+  roll: number;
+  blocksLeft: number;
+};
+
+/**
+ * Runs `fullCheck` for every pending reveal in a single multicall and re-checks on every new block.
+ * Positions without a usable commit blockhash (same block or expired) are left out.
+ */
+export const useToppleChecks = (pendingReveals: PendingReveal[]) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+
+  const { data: fullChecks, queryKey } = useReadContracts({
+    contracts: pendingReveals.map(({ positionId, reveal }) => ({
+      address: towerContract?.address,
+      abi: towerContract?.abi,
+      functionName: "fullCheck",
+      args: [positionId, reveal],
+      chainId: targetNetwork.id,
+    })),
+    query: { enabled: !!towerContract && pendingReveals.length > 0 },
+  });
+
+  useInvalidateOnBlock(queryKey);
+
+  return useMemo(
+    () =>
+      pendingReveals.flatMap((pending, i): ToppleCheck[] => {
+        const check = fullChecks?.[i];
+        if (check?.status !== "success") return [];
+        const [winner, roll, blockHash, blocksRemaining] = check.result as readonly [boolean, bigint, Hex, bigint];
+        // No blockhash yet (same block) or any more (expired) means there's no roll to show
+        if (BigInt(blockHash) === 0n) return [];
+        return [{ ...pending, winner, roll: Number(roll), blocksLeft: Number(blocksRemaining) }];
+      }),
+    [pendingReveals, fullChecks],
+  );
+};
@@ -0,0 +1,116 @@
+import { useCallback } from "react";
+import { useSmartAccount, useTowerAccount } from "./useSmartAccount";
+import { useQuery } from "@tanstack/react-query";
+import { useLocalStorage } from "usehooks-ts";
+import { Hex, isAddressEqual, parseAbi } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { usePublicClient, useReadContract, useWriteContract } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork, useTransactor } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+import { createSessionBundlerClient } from "~~/services/web3/smartAccount";
+
+const SESSION_KEY_STORAGE_KEY = "lobsterTower.toppleSessionKey";
+// How long one approval lets the session key topple, enabling auto-topple after that asks again
+const SESSION_DURATION_SECONDS = 7 * 24 * 3600;
+
+// Topple sessions are newer than the deployment in deployedContracts.ts, so they go through their own ABI and are only
+// offered once the tower answers `toppleSessions`
+const toppleSessionAbi = parseAbi([
+  "function setToppleSession(address key, uint64 validUntil)",
+  "function toppleSessions(address committer) view returns (address key, uint64 validUntil)",
+]);
+
+/**
+ * A topple session: a key generated in this browser that the tower account lets call `topple` for it, approved once
+ * with `LobsterTower.setToppleSession`. The tower only takes it for the account's own commits, pays the pot to the
+ * account and stops taking it after a week. The key sends from its own smart account with gas from the paymaster, so
+ * it never holds anything.
+ *
+ * `isSupported` is false without a bundler and paymaster, and on towers deployed before topple sessions.
+ * `bundlerClient` is only set while the tower takes this browser's key.
+ */
+export const useToppleSession = () => {
+  const towerAccount = useTowerAccount();
+  const { bundlerClient: towerBundlerClient } = useSmartAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const { writeContractAsync } = useWriteContract();
+  const writeTx = useTransactor();
+  const [sessionKey, setSessionKey] = useLocalStorage<Hex | null>(SESSION_KEY_STORAGE_KEY, null, {
+    initializeWithValue: false,
+  });
+
+  const hasPaymaster = !!scaffoldConfig.bundlerUrl && !!scaffoldConfig.paymasterUrl;
+
+  const { data: session, refetch } = useReadContract({
+    address: towerContract?.address,
+    abi: toppleSessionAbi,
+    functionName: "toppleSessions",
+    args: towerAccount ? [towerAccount] : undefined,
+    chainId: targetNetwork.id,
+    // Older towers revert, there's nothing to retry
+    query: { enabled: hasPaymaster && !!towerContract && !!towerAccount, retry: false },
+  });
+
+  const { data: sessionBundlerClient } = useQuery({
+    queryKey: ["toppleSessionAccount", targetNetwork.id, sessionKey],
+    queryFn: () =>
+      createSessionBundlerClient({
+        chain: targetNetwork,
+        publicClient: publicClient!,
+        sessionKey: privateKeyToAccount(sessionKey!),
+      }),
+    enabled: hasPaymaster && !!sessionKey && !!publicClient,
+    // The account is a pure function of its key, and clients don't survive structural sharing
+    staleTime: Infinity,
+    structuralSharing: false,
+  });
+
+  const isSupported = hasPaymaster && session !== undefined;
+  const isActive =
+    !!session &&
+    !!sessionBundlerClient &&
+    isAddressEqual(session[0], sessionBundlerClient.account.address) &&
+    session[1] > BigInt(Math.floor(Date.now() / 1000));
+
+  /**
+   * Asks the tower account to approve this browser's session key, generating the key on first use.
+   */
+  const authorize = useCallback(async () => {
+    if (!towerContract || !publicClient) throw new Error("Wallet or LobsterTower is not ready");
+    const key = sessionKey ?? generatePrivateKey();
+    setSessionKey(key);
+    const { account } = await createSessionBundlerClient({
+      chain: targetNetwork,
+      publicClient,
+      sessionKey: privateKeyToAccount(key),
+    });
+
+    const call = {
+      abi: toppleSessionAbi,
+      functionName: "setToppleSession",
+      args: [account.address, BigInt(Math.floor(Date.now() / 1000) + SESSION_DURATION_SECONDS)],
+    } as const;
+    await writeTx(
+      () =>
+        towerBundlerClient
+          ? towerBundlerClient.sendUserOperation({ calls: [{ to: towerContract.address, ...call }] })
+          : writeContractAsync({ address: towerContract.address, ...call, chainId: targetNetwork.id }),
+      { bundlerClient: towerBundlerClient },
+    );
+    await refetch();
+  }, [
+    towerContract,
+    publicClient,
+    sessionKey,
+    setSessionKey,
+    targetNetwork,
+    towerBundlerClient,
+    writeTx,
+    writeContractAsync,
+    refetch,
+  ]);
+
+  return { isSupported, isActive, bundlerClient: isActive ? sessionBundlerClient : undefined, authorize };
+};
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { useInvalidateOnBlock } from "./useInvalidateOnBlock";
+import { Address, getAddress, isAddressEqual } from "viem";
+import { useReadContracts } from "wagmi";
+import deploymentHistory from "~~/contracts/deploymentHistory";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+export type TowerAllowance = {
+  spender: Address;
+  /** Unix seconds, undefined for a deployment missing from the broadcast history */
+  deployedAt?: number;
+  isCurrent: boolean;
+  allowance: bigint;
+};
+
+type DeploymentRecord = { address: string; deployedAt: number };
+
+const towerDeployments = (chainId: number): readonly DeploymentRecord[] =>
+  (deploymentHistory as Record<number, { LobsterTower?: readonly DeploymentRecord[] }>)[chainId]?.LobsterTower ?? [];
+
+/**
+ * CLAWD allowances `owner` granted to the current and every past `LobsterTower` deployment (from
+ * contracts/deploymentHistory.ts), read in one multicall and refreshed on every block.
+ */
+export const useTowerAllowances = (owner: Address | undefined) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+  const { data: clawdContract } = useDeployedContractInfo({ contractName: "CLAWD" });
+
+  const towers = useMemo(() => {
+    const deployments: Omit<TowerAllowance, "isCurrent" | "allowance">[] = towerDeployments(targetNetwork.id).map(
+      ({ address, deployedAt }) => ({ spender: getAddress(address), deployedAt }),
+    );
+    const current = towerContract && getAddress(towerContract.address);
+    if (current && !deployments.some(({ spender }) => isAddressEqual(spender, current))) {
+      deployments.unshift({ spender: current });
+    }
+    return deployments.map(tower => ({
+      ...tower,
+      isCurrent: !!current && isAddressEqual(tower.spender, current),
+    }));
+  }, [targetNetwork.id, towerContract]);
+
+  const { data, isLoading, queryKey } = useReadContracts({
+    // Only built once the owner and CLAWD are known, so the ABI types each result
+    contracts:
+      owner && clawdContract
+        ? towers.map(
+            ({ spender }) =>
+              ({
+                address: clawdContract.address,
+                abi: clawdContract.abi,
+                functionName: "allowance",
+                args: [owner, spender],
+                chainId: targetNetwork.id,
+              }) as const,
+          )
+        : [],
+    query: { enabled: !!owner && !!clawdContract && towers.length > 0 },
+  });
+
+  useInvalidateOnBlock(queryKey);
+
+  const allowances = useMemo(
+    () =>
+      towers.flatMap((tower, i): TowerAllowance[] => {
+        const result = data?.[i];
+        return result?.status === "success" ? [{ ...tower, allowance: result.result }] : [];
+      }),
+    [towers, data],
+  );
+
+  return { allowances, isLoading };
+};
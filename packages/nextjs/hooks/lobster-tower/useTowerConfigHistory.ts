@@ -0,0 +1,36 @@
+import { useTowerEvents } from "./useTowerEvents";
+import { Hash } from "viem";
+
+const HISTORY_LIMIT = 50;
+
+export type TowerConfigChange = { id: string; blockNumber: bigint; logIndex: number; transactionHash: Hash } & (
+  | { kind: "entryCost"; oldCost: bigint; newCost: bigint }
+  | { kind: "distribution"; participantBps: bigint; burnBps: bigint }
+  | { kind: "pause"; paused: boolean }
+);
+
+/**
+ * Every `setEntryCost`, `setDistribution` and `setPaused` call the owner made, newest first, from the indexer or the
+ * tower's deployment block.
+ */
+export const useTowerConfigHistory = () => {
+  const entryCost = useTowerEvents({ eventName: "EntryCostUpdated", limit: HISTORY_LIMIT });
+  const distribution = useTowerEvents({ eventName: "DistributionUpdated", limit: HISTORY_LIMIT });
+  const pause = useTowerEvents({ eventName: "PauseUpdated", limit: HISTORY_LIMIT });
+
+  const changes: TowerConfigChange[] = [
+    ...(entryCost.data ?? []).map(({ args, ...log }) => ({ ...log, kind: "entryCost" as const, ...args })),
+    ...(distribution.data ?? []).map(({ args, ...log }) => ({ ...log, kind: "distribution" as const, ...args })),
+    ...(pause.data ?? []).map(({ args, ...log }) => ({ ...log, kind: "pause" as const, ...args })),
+  ]
+    .map(change => ({ ...change, id: `${change.transactionHash}-${change.logIndex}` }))
+    .sort((a, b) =>
+      a.blockNumber !== b.blockNumber ? (b.blockNumber > a.blockNumber ? 1 : -1) : b.logIndex - a.logIndex,
+    );
+
+  return {
+    changes,
+    isLoading: entryCost.isLoading || distribution.isLoading || pause.isLoading,
+    error: entryCost.error ?? distribution.error ?? pause.error,
+  };
+};
@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { AbiEvent, ExtractAbiEventNames } from "abitype";
+import { GetEventArgs, Hex } from "viem";
+import { useDeployedContractInfo, useScaffoldEventHistory } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+import { ContractAbi } from "~~/utils/scaffold-eth/contract";
+
+type TowerAbi = ContractAbi<"LobsterTower">;
+export type TowerEventName = ExtractAbiEventNames<TowerAbi>;
+
+export type TowerEvent<TEventName extends TowerEventName> = {
+  args: GetEventArgs<TowerAbi, TEventName, { IndexedOnly: false; Required: true }>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hex;
+};
+
+type IndexedEvent = {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: Hex;
+  args: Record<string, string | boolean>;
+};
+
+/**
+ * Latest `LobsterTower` events, newest first. Served by the tower indexer when `indexerUrl` is set in
+ * scaffold.config.ts, otherwise scanned with `useScaffoldEventHistory` from `fromBlock` (local chains / no indexer).
+ */
+export const useTowerEvents = <TEventName extends TowerEventName>({
+  eventName,
+  limit,
+  fromBlock,
+}: {
+  eventName: TEventName;
+  limit: number;
+  fromBlock?: bigint;
+}) => {
+  const { indexerUrl } = scaffoldConfig;
+  const { data: towerContract } = useDeployedContractInfo({ contractName: "LobsterTower" });
+
+  const indexed = useQuery({
+    queryKey: ["towerEvents", indexerUrl, eventName, limit],
+    queryFn: async () => {
+      const response = await fetch(`${indexerUrl}/events?name=${eventName}&limit=${limit}`);
+      if (!response.ok) throw new Error(`Indexer responded with ${response.status}`);
+      const { items } = (await response.json()) as { items: IndexedEvent[] };
+
+      // The indexer sends uint256 values as decimal strings, turn them back into bigints like viem would
+      const event = towerContract?.abi.find(part => part.type === "event" && part.name === eventName) as AbiEvent;
+      return items.map(item => ({
+        blockNumber: BigInt(item.blockNumber),
+        logIndex: item.logIndex,
+        transactionHash: item.transactionHash,
+        args: Object.fromEntries(
+          event.inputs.map(({ name, type }) => [
+            name,
+            type.startsWith("uint") || type.startsWith("int") ? BigInt(item.args[name!] as string) : item.args[name!],
+          ]),
+        ),
+      })) as TowerEvent<TEventName>[];
+    },
+    enabled: !!indexerUrl && !!towerContract,
+    refetchInterval: scaffoldConfig.pollingInterval,
+  });
+
+  const history = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName,
+    fromBlock,
+    watch: true,
+    enabled: !indexerUrl,
+  });
+
+  const data = indexerUrl
+    ? indexed.data
+    : (history.data as unknown as TowerEvent<TEventName>[] | undefined)?.slice(0, limit);
+
+  return { data, isLoading: indexerUrl ? indexed.isLoading : history.isLoading, error: indexed.error ?? history.error };
+};
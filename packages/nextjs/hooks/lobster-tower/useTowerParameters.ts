@@ -0,0 +1,136 @@
+import { useMemo, useState } from "react";
+import { BPS_DENOMINATOR } from "@se-2/sdk";
+import { Hash } from "viem";
+import { useScaffoldReadContract, useScaffoldWatchContractEvent } from "~~/hooks/scaffold-eth";
+
+export type TowerParameters = {
+  entryCost: bigint;
+  participantBps: bigint;
+  burnBps: bigint;
+  /** Whatever neither the lobsters nor the burn take */
+  potBps: bigint;
+  toppleModulo: bigint;
+};
+
+export type TowerParameterChange = { id: string; transactionHash: Hash } & (
+  | { kind: "distribution"; participantBps: bigint; burnBps: bigint; potBps: bigint }
+  | { kind: "entryCost"; oldCost: bigint; newCost: bigint }
+);
+
+/**
+ * Entry cost, split and odds as the contract has them, undefined until all of them load. They only change through
+ * `setEntryCost`/`setDistribution`, so they are refetched on those events (see `useTowerParameterChanges`) instead of
+ * on every block.
+ */
+export const useTowerParameters = (): TowerParameters | undefined => {
+  const { data: entryCost } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "entryCost",
+    watch: false,
+  });
+  const { data: participantBps } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "participantBps",
+    watch: false,
+  });
+  const { data: burnBps } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "burnBps",
+    watch: false,
+  });
+  const { data: toppleModulo } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "TOPPLE_MODULO",
+    watch: false,
+  });
+
+  // One object per set of values, so it can be a dependency of memos and effects
+  return useMemo(() => {
+    if (
+      entryCost === undefined ||
+      participantBps === undefined ||
+      burnBps === undefined ||
+      toppleModulo === undefined
+    ) {
+      return undefined;
+    }
+    return {
+      entryCost,
+      participantBps,
+      burnBps,
+      potBps: BPS_DENOMINATOR - participantBps - burnBps,
+      toppleModulo,
+    };
+  }, [entryCost, participantBps, burnBps, toppleModulo]);
+};
+
+/**
+ * Watches `DistributionUpdated` and `EntryCostUpdated`, refetches the parameters everywhere they're read and keeps the
+ * changes seen since the page loaded until they're dismissed. Mount it once for the whole app.
+ */
+export const useTowerParameterChanges = () => {
+  const { refetch: refetchEntryCost } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "entryCost",
+    watch: false,
+  });
+  const { refetch: refetchParticipantBps } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "participantBps",
+    watch: false,
+  });
+  const { refetch: refetchBurnBps } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "burnBps",
+    watch: false,
+  });
+
+  const [changes, setChanges] = useState<TowerParameterChange[]>([]);
+
+  const addChanges = (newChanges: TowerParameterChange[]) =>
+    setChanges(current => [...current, ...newChanges.filter(change => !current.some(({ id }) => id === change.id))]);
+
+  useScaffoldWatchContractEvent({
+    contractName: "LobsterTower",
+    eventName: "DistributionUpdated",
+    onLogs: logs => {
+      refetchParticipantBps();
+      refetchBurnBps();
+      addChanges(
+        logs.map(log => {
+          const participantBps = log.args.participantBps ?? 0n;
+          const burnBps = log.args.burnBps ?? 0n;
+          return {
+            id: `${log.transactionHash}-${log.logIndex}`,
+            transactionHash: log.transactionHash,
+            kind: "distribution",
+            participantBps,
+            burnBps,
+            potBps: BPS_DENOMINATOR - participantBps - burnBps,
+          };
+        }),
+      );
+    },
+  });
+
+  useScaffoldWatchContractEvent({
+    contractName: "LobsterTower",
+    eventName: "EntryCostUpdated",
+    onLogs: logs => {
+      refetchEntryCost();
+      addChanges(
+        logs.map(log => ({
+          id: `${log.transactionHash}-${log.logIndex}`,
+          transactionHash: log.transactionHash,
+          kind: "entryCost",
+          oldCost: log.args.oldCost ?? 0n,
+          newCost: log.args.newCost ?? 0n,
+        })),
+      );
+    },
+  });
+
+  const dismissChange = (id: string) => setChanges(current => current.filter(change => change.id !== id));
+
+  return { changes, dismissChange };
+};
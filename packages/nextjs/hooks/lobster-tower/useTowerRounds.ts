@@ -0,0 +1,221 @@
+import { useMemo } from "react";
+import { BPS_DENOMINATOR } from "@se-2/sdk";
+import { useQuery } from "@tanstack/react-query";
+import { Address, Hex } from "viem";
+import { useScaffoldEventHistory, useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+
+export type RoundTopple = {
+  toppler: Address;
+  potWon: bigint;
+  height: number;
+  /** Unix seconds */
+  timestamp: number;
+  transactionHash: Hex;
+};
+
+export type TowerRound = {
+  round: number;
+  lobsters: number;
+  /** Total CLAWD paid in by the round's lobsters */
+  entered: bigint;
+  /** Part of `entered` sent to the burn address */
+  burned: bigint;
+  /** Unix seconds of the first entry, null for a round toppled before anyone entered it */
+  startedAt: number | null;
+  /** Null while the round is still standing */
+  topple: RoundTopple | null;
+};
+
+export type RoundLobster = {
+  positionId: number;
+  owner: Address;
+  amount: bigint;
+  /** Unix seconds */
+  enteredAt: number;
+  transactionHash: Hex;
+};
+
+export type Page<T> = { items: T[]; total: number };
+
+type Pagination = { limit: number; offset: number };
+
+// Indexer payloads carry uint256 amounts as decimal strings
+type IndexedRound = Omit<TowerRound, "entered" | "burned" | "topple"> & {
+  entered: string;
+  burned: string;
+  topple: (Omit<RoundTopple, "potWon"> & { potWon: string }) | null;
+};
+type IndexedLobster = Omit<RoundLobster, "amount"> & { amount: string };
+type IndexedPage<T> = { items: T[]; pagination: { total: number } };
+
+const fromIndexedRound = ({ entered, burned, topple, ...round }: IndexedRound): TowerRound => ({
+  ...round,
+  entered: BigInt(entered),
+  burned: BigInt(burned),
+  topple: topple && { ...topple, potWon: BigInt(topple.potWon) },
+});
+
+const fetchIndexer = async <T>(path: string): Promise<T | undefined> => {
+  const response = await fetch(`${scaffoldConfig.indexerUrl}${path}`);
+  if (response.status === 404) return undefined;
+  if (!response.ok) throw new Error(`Indexer responded with ${response.status}`);
+  return response.json();
+};
+
+/**
+ * Every round rebuilt from the full `LobsterPlaced` / `TowerToppled` history, for when no indexer is configured.
+ * Burns are estimated with the current `burnBps` since the constructor's distribution is not in any event.
+ */
+const useRoundsFromEvents = (enabled: boolean) => {
+  const entries = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "LobsterPlaced",
+    blockData: true,
+    watch: true,
+    enabled,
+  });
+  const topples = useScaffoldEventHistory({
+    contractName: "LobsterTower",
+    eventName: "TowerToppled",
+    blockData: true,
+    watch: true,
+    enabled,
+  });
+  const { data: burnBps } = useScaffoldReadContract({
+    contractName: "LobsterTower",
+    functionName: "burnBps",
+    query: { enabled },
+  });
+
+  const data = useMemo(() => {
+    if (!enabled || !entries.data || !topples.data) return undefined;
+
+    // Logs whose arguments didn't decode are left out, which narrows the rest to the ABI's argument types
+    const lobstersByRound = new Map<number, RoundLobster[]>();
+    for (const { args, blockData, transactionHash } of entries.data) {
+      const { positionId, owner, round, amount } = args;
+      if (positionId === undefined || !owner || round === undefined || amount === undefined) continue;
+      lobstersByRound.set(Number(round), [
+        ...(lobstersByRound.get(Number(round)) ?? []),
+        {
+          positionId: Number(positionId),
+          owner,
+          amount,
+          enteredAt: Number(blockData.timestamp),
+          transactionHash,
+        },
+      ]);
+    }
+
+    const toppleByRound = new Map<number, RoundTopple>();
+    for (const { args, blockData, transactionHash } of topples.data) {
+      const { round, toppler, potWon, height } = args;
+      if (round === undefined || !toppler || potWon === undefined || height === undefined) continue;
+      toppleByRound.set(Number(round), {
+        toppler,
+        potWon,
+        height: Number(height),
+        timestamp: Number(blockData.timestamp),
+        transactionHash,
+      });
+    }
+
+    const roundIds = [...new Set([...lobstersByRound.keys(), ...toppleByRound.keys()])].sort((a, b) => b - a);
+    return roundIds.map(round => {
+      const lobsters = (lobstersByRound.get(round) ?? []).sort((a, b) => a.positionId - b.positionId);
+      return {
+        round: {
+          round,
+          lobsters: lobsters.length,
+          entered: lobsters.reduce((total, { amount }) => total + amount, 0n),
+          burned: lobsters.reduce((total, { amount }) => total + (amount * (burnBps ?? 0n)) / BPS_DENOMINATOR, 0n),
+          startedAt: lobsters.length > 0 ? Math.min(...lobsters.map(({ enteredAt }) => enteredAt)) : null,
+          topple: toppleByRound.get(round) ?? null,
+        } satisfies TowerRound,
+        lobsters,
+      };
+    });
+  }, [enabled, entries.data, topples.data, burnBps]);
+
+  return { data, isLoading: entries.isLoading || topples.isLoading, error: entries.error ?? topples.error };
+};
+
+/** A page of rounds, newest first. Served by the tower indexer when `indexerUrl` is set, otherwise rebuilt from events. */
+export const useTowerRounds = ({ limit, offset }: Pagination) => {
+  const { indexerUrl } = scaffoldConfig;
+
+  const indexed = useQuery({
+    queryKey: ["towerRounds", indexerUrl, limit, offset],
+    queryFn: async (): Promise<Page<TowerRound>> => {
+      const page = await fetchIndexer<IndexedPage<IndexedRound>>(`/rounds?limit=${limit}&offset=${offset}`);
+      return { items: page?.items.map(fromIndexedRound) ?? [], total: page?.pagination.total ?? 0 };
+    },
+    enabled: !!indexerUrl,
+    refetchInterval: scaffoldConfig.pollingInterval,
+  });
+
+  const fromEvents = useRoundsFromEvents(!indexerUrl);
+  const data = useMemo(
+    () =>
+      indexerUrl
+        ? indexed.data
+        : fromEvents.data && {
+            items: fromEvents.data.slice(offset, offset + limit).map(({ round }) => round),
+            total: fromEvents.data.length,
+          },
+    [indexerUrl, indexed.data, fromEvents.data, limit, offset],
+  );
+
+  return {
+    data,
+    isLoading: indexerUrl ? indexed.isLoading : fromEvents.isLoading,
+    error: indexed.error ?? fromEvents.error,
+  };
+};
+
+/**
+ * One round with a page of its lobsters in stacking order. `data` is null when the round doesn't exist (yet).
+ */
+export const useTowerRound = (round: number, { limit, offset }: Pagination) => {
+  const { indexerUrl } = scaffoldConfig;
+
+  const indexed = useQuery({
+    queryKey: ["towerRound", indexerUrl, round, limit, offset],
+    queryFn: async () => {
+      const result = await fetchIndexer<IndexedRound & { positions: IndexedPage<IndexedLobster> }>(
+        `/rounds/${round}?limit=${limit}&offset=${offset}`,
+      );
+      if (!result) return null;
+      const { positions, ...summary } = result;
+      return {
+        round: fromIndexedRound(summary),
+        lobsters: {
+          items: positions.items.map(lobster => ({ ...lobster, amount: BigInt(lobster.amount) })),
+          total: positions.pagination.total,
+        } as Page<RoundLobster>,
+      };
+    },
+    enabled: !!indexerUrl,
+    refetchInterval: scaffoldConfig.pollingInterval,
+  });
+
+  const fromEvents = useRoundsFromEvents(!indexerUrl);
+  const data = useMemo(() => {
+    if (indexerUrl) return indexed.data;
+    if (!fromEvents.data) return undefined;
+    const found = fromEvents.data.find(item => item.round.round === round);
+    return found
+      ? {
+          round: found.round,
+          lobsters: { items: found.lobsters.slice(offset, offset + limit), total: found.lobsters.length },
+        }
+      : null;
+  }, [indexerUrl, indexed.data, fromEvents.data, round, limit, offset]);
+
+  return {
+    data,
+    isLoading: indexerUrl ? indexed.isLoading : fromEvents.isLoading,
+    error: indexed.error ?? fromEvents.error,
+  };
+};
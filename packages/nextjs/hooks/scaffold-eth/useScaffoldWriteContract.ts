@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { MutateOptions } from "@tanstack/react-query";
 import { Abi, ExtractAbiFunctionNames } from "abitype";
+import { parseEventLogs } from "viem";
 import { Config, UseWriteContractParameters, useAccount, useConfig, useWriteContract } from "wagmi";
 import { WriteContractErrorType, WriteContractReturnType } from "wagmi/actions";
 import { WriteContractVariables } from "wagmi/query";
@@ -9,7 +10,9 @@ import { useDeployedContractInfo, useTransactor } from "~~/hooks/scaffold-eth";
 import { AllowedChainIds, notification } from "~~/utils/scaffold-eth";
 import {
   ContractAbi,
+  ContractEventLogs,
   ContractName,
+  ScaffoldWriteContractEventOptions,
   ScaffoldWriteContractOptions,
   ScaffoldWriteContractVariables,
   UseScaffoldWriteConfig,
@@ -25,11 +28,11 @@ type ScaffoldWriteContractReturnType<TContractName extends ContractName> = Omit<
     TFunctionName extends ExtractAbiFunctionNames<ContractAbi<TContractName>, "nonpayable" | "payable">,
   >(
     variables: ScaffoldWriteContractVariables<TContractName, TFunctionName>,
-    options?: ScaffoldWriteContractOptions,
+    options?: ScaffoldWriteContractOptions & ScaffoldWriteContractEventOptions<TContractName>,
   ) => Promise<WriteContractReturnType | undefined>;
   writeContract: <TFunctionName extends ExtractAbiFunctionNames<ContractAbi<TContractName>, "nonpayable" | "payable">>(
     variables: ScaffoldWriteContractVariables<TContractName, TFunctionName>,
-    options?: Omit<ScaffoldWriteContractOptions, "onBlockConfirmation" | "blockConfirmations">,
+    options?: Omit<ScaffoldWriteContractOptions, "onBlockConfirmation" | "blockConfirmations" | "bundlerClient">,
   ) => void;
 };
 
@@ -50,6 +53,10 @@ export function useScaffoldWriteContract<TContractName extends ContractName>(
  * @param contractName - name of the contract to be written to
  * @param config.chainId - optional chainId that is configured with the scaffold project to make use for multi-chain interactions.
  * @param writeContractParams - wagmi's useWriteContract parameters
+ *
+ * `writeContractAsync` also accepts an `onEventLogs` option, called with this contract's events decoded from the
+ * transaction receipt (e.g. to read ids assigned by the transaction), and a `bundlerClient` option that sends the write
+ * as a UserOperation from that client's smart account instead.
  */
 export function useScaffoldWriteContract<TContractName extends ContractName>(
   configOrName: UseScaffoldWriteConfig<TContractName> | TContractName,
@@ -88,7 +95,7 @@ export function useScaffoldWriteContract<TContractName extends ContractName>(
     TFunctionName extends ExtractAbiFunctionNames<ContractAbi<TContractName>, "nonpayable" | "payable">,
   >(
     variables: ScaffoldWriteContractVariables<TContractName, TFunctionName>,
-    options?: ScaffoldWriteContractOptions,
+    options?: ScaffoldWriteContractOptions & ScaffoldWriteContractEventOptions<TContractName>,
   ) => {
     if (!deployedContractData) {
       notification.error("Target Contract is not deployed, did you forget to run `yarn deploy`?");
@@ -107,12 +114,14 @@ export function useScaffoldWriteContract<TContractName extends ContractName>(
 
     try {
       setIsMining(true);
-      const { blockConfirmations, onBlockConfirmation, ...mutateOptions } = options || {};
+      const { blockConfirmations, onBlockConfirmation, onEventLogs, bundlerClient, ...mutateOptions } = options || {};
 
       const writeContractObject = {
         abi: deployedContractData.abi as Abi,
         address: deployedContractData.address,
         ...variables,
+        // UserOperations run as the smart account, so simulate them as it too
+        ...(bundlerClient && { account: bundlerClient.account.address }),
       } as WriteContractVariables<Abi, string, any[], Config, number>;
 
       if (!finalConfig?.disableSimulate) {
@@ -123,6 +132,18 @@ export function useScaffoldWriteContract<TContractName extends ContractName>(
         });
       }
 
+      const makeUserOperationWithParams = () =>
+        bundlerClient!.sendUserOperation({
+          calls: [
+            {
+              abi: writeContractObject.abi,
+              to: writeContractObject.address,
+              functionName: writeContractObject.functionName,
+              args: writeContractObject.args,
+              value: writeContractObject.value,
+            },
+          ],
+        });
       const makeWriteWithParams = () =>
         wagmiContractWrite.writeContractAsync(
           writeContractObject,
@@ -135,7 +156,25 @@ export function useScaffoldWriteContract<TContractName extends ContractName>(
               >
             | undefined,
         );
-      const writeTxResult = await writeTx(makeWriteWithParams, { blockConfirmations, onBlockConfirmation });
+      const writeTxResult = await writeTx(bundlerClient ? makeUserOperationWithParams : makeWriteWithParams, {
+        blockConfirmations,
+        bundlerClient,
+        onBlockConfirmation: receipt => {
+          onBlockConfirmation?.(receipt);
+          if (onEventLogs) {
+            // Only decode logs emitted by this contract, other contracts may share event signatures
+            const contractLogs = receipt.logs.filter(
+              log => log.address.toLowerCase() === deployedContractData.address.toLowerCase(),
+            );
+            onEventLogs(
+              parseEventLogs({
+                abi: deployedContractData.abi as Abi,
+                logs: contractLogs,
+              }) as ContractEventLogs<TContractName>,
+            );
+          }
+        },
+      });
 
       return writeTxResult;
     } catch (e: any) {
@@ -150,7 +189,7 @@ export function useScaffoldWriteContract<TContractName extends ContractName>(
     TFunctionName extends ExtractAbiFunctionNames<ContractAbi<TContractName>, "nonpayable" | "payable">,
   >(
     variables: ScaffoldWriteContractVariables<TContractName, TFunctionName>,
-    options?: Omit<ScaffoldWriteContractOptions, "onBlockConfirmation" | "blockConfirmations">,
+    options?: Omit<ScaffoldWriteContractOptions, "onBlockConfirmation" | "blockConfirmations" | "bundlerClient">,
   ) => {
     if (!deployedContractData) {
       notification.error("Target Contract is not deployed, did you forget to run `yarn deploy`?");
@@ -50,6 +50,7 @@ export const useTransactor = (_walletClient?: WalletClient): TransactionFunc =>
     let notificationId = null;
     let transactionHash: Hash | undefined = undefined;
     let transactionReceipt: TransactionReceipt | undefined;
+    let isReverted = false;
     let blockExplorerTxURL = "";
     let chainId: number = scaffoldConfig.targetNetworks[0].id;
     try {
@@ -69,19 +70,38 @@ export const useTransactor = (_walletClient?: WalletClient): TransactionFunc =>
       }
       notification.remove(notificationId);
 
-      blockExplorerTxURL = chainId ? getBlockExplorerTxLink(chainId, transactionHash) : "";
+      if (options?.bundlerClient) {
+        // A UserOperation hash has nothing to link to until a bundle carries it
+        notificationId = notification.loading(<TxnNotification message="Waiting for UserOperation to be bundled." />);
 
-      notificationId = notification.loading(
-        <TxnNotification message="Waiting for transaction to complete." blockExplorerLink={blockExplorerTxURL} />,
-      );
+        const userOperationReceipt = await options.bundlerClient.waitForUserOperationReceipt({
+          hash: transactionHash,
+        });
+        notification.remove(notificationId);
 
-      transactionReceipt = await publicClient.waitForTransactionReceipt({
-        hash: transactionHash,
-        confirmations: options?.blockConfirmations,
-      });
-      notification.remove(notificationId);
+        // Bundles can carry other senders' UserOperations, so only keep the logs of ours
+        transactionReceipt = { ...userOperationReceipt.receipt, logs: userOperationReceipt.logs };
+        transactionHash = transactionReceipt.transactionHash;
+        blockExplorerTxURL = chainId ? getBlockExplorerTxLink(chainId, transactionHash) : "";
+
+        isReverted = !userOperationReceipt.success;
+        if (isReverted) throw new Error("UserOperation reverted");
+      } else {
+        blockExplorerTxURL = chainId ? getBlockExplorerTxLink(chainId, transactionHash) : "";
 
-      if (transactionReceipt.status === "reverted") throw new Error("Transaction reverted");
+        notificationId = notification.loading(
+          <TxnNotification message="Waiting for transaction to complete." blockExplorerLink={blockExplorerTxURL} />,
+        );
+
+        transactionReceipt = await publicClient.waitForTransactionReceipt({
+          hash: transactionHash,
+          confirmations: options?.blockConfirmations,
+        });
+        notification.remove(notificationId);
+
+        isReverted = transactionReceipt.status === "reverted";
+        if (isReverted) throw new Error("Transaction reverted");
+      }
 
       notification.success(
         <TxnNotification message="Transaction completed successfully!" blockExplorerLink={blockExplorerTxURL} />,
@@ -99,7 +119,7 @@ export const useTransactor = (_walletClient?: WalletClient): TransactionFunc =>
       const message = getParsedErrorWithAllAbis(error, chainId as AllowedChainIds);
 
       // if receipt was reverted, show notification with block explorer link and return error
-      if (transactionReceipt?.status === "reverted") {
+      if (isReverted) {
         notification.error(<TxnNotification message={message} blockExplorerLink={blockExplorerTxURL} />);
         throw error;
       }
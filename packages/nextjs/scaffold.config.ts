@@ -7,6 +7,9 @@ export type BaseConfig = {
   rpcOverrides?: Record<number, string>;
   walletConnectProjectId: string;
   onlyLocalBurnerWallet: boolean;
+  indexerUrl?: string;
+  bundlerUrl?: string;
+  paymasterUrl?: string;
 };
 
 export type ScaffoldConfig = BaseConfig;
@@ -35,6 +38,13 @@ const scaffoldConfig = {
   // .env.local for local testing, and in the Vercel/system env config for live apps.
   walletConnectProjectId: process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID || "3a8170812b534d0ff9d794f19a901d64",
   onlyLocalBurnerWallet: true,
+  // URL of the tower indexer (packages/indexer). When set, event history is read from it instead of scanning getLogs
+  indexerUrl: process.env.NEXT_PUBLIC_INDEXER_URL,
+  // ERC-4337 bundler for the target network. When set, entries, claims and topples can go out as UserOperations from a
+  // smart account owned by the connected wallet (`yarn bundler` serves a local one on a fork)
+  bundlerUrl: process.env.NEXT_PUBLIC_BUNDLER_URL,
+  // ERC-7677 paymaster that sponsors those UserOperations, so the smart account needs no ETH
+  paymasterUrl: process.env.NEXT_PUBLIC_PAYMASTER_URL,
 } as const satisfies ScaffoldConfig;
 
 export default scaffoldConfig;
@@ -14,6 +14,9 @@ import { ChainWithAttributes, NETWORKS_EXTRA_DATA } from "~~/utils/scaffold-eth"
 type GlobalState = {
   targetNetwork: ChainWithAttributes;
   setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => void;
+  /** `LobsterTower.paused`, kept in sync by TowerStatusProvider. Undefined until it loads */
+  isTowerPaused: boolean | undefined;
+  setIsTowerPaused: (isTowerPaused: boolean | undefined) => void;
 };
 
 export const useGlobalState = create<GlobalState>(set => ({
@@ -22,4 +25,6 @@ export const useGlobalState = create<GlobalState>(set => ({
     ...NETWORKS_EXTRA_DATA[scaffoldConfig.targetNetworks[0].id],
   },
   setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => set(() => ({ targetNetwork: newTargetNetwork })),
+  isTowerPaused: undefined,
+  setIsTowerPaused: (isTowerPaused: boolean | undefined) => set(() => ({ isTowerPaused })),
 }));
@@ -0,0 +1,74 @@
+import { Chain, Client, JsonRpcAccount, LocalAccount, PublicClient, Transport, WalletClient, http } from "viem";
+import {
+  SmartAccount,
+  createBundlerClient,
+  createPaymasterClient,
+  toSoladySmartAccount,
+} from "viem/account-abstraction";
+import scaffoldConfig from "~~/scaffold.config";
+
+const bundlerClientFor = <TAccount extends SmartAccount>({
+  account,
+  chain,
+  publicClient,
+}: {
+  account: TAccount;
+  chain: Chain;
+  publicClient: PublicClient;
+}) => {
+  const { bundlerUrl, paymasterUrl } = scaffoldConfig;
+  if (!bundlerUrl) throw new Error("No bundlerUrl in scaffold.config.ts");
+  return createBundlerClient({
+    account,
+    chain,
+    client: publicClient,
+    transport: http(bundlerUrl),
+    paymaster: paymasterUrl ? createPaymasterClient({ transport: http(paymasterUrl) }) : undefined,
+  });
+};
+
+/**
+ * Bundler client for the target network that sends UserOperations from a Solady smart account (EntryPoint v0.7) owned
+ * by the connected wallet. The wallet only signs, gas is paid by the paymaster when `paymasterUrl` is set and by the
+ * smart account's own ETH otherwise.
+ */
+export const createTowerBundlerClient = async ({
+  chain,
+  publicClient,
+  walletClient,
+}: {
+  chain: Chain;
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+}) => {
+  if (!walletClient.account) throw new Error("Wallet has no account");
+
+  // Connectors hand out JSON-RPC accounts and the burner wallet a local one, never a smart account
+  const owner = walletClient.account as JsonRpcAccount | LocalAccount;
+  const account = await toSoladySmartAccount({
+    client: walletClient as Client<Transport, Chain | undefined, typeof owner>,
+    owner,
+  });
+
+  return bundlerClientFor({ account, chain, publicClient });
+};
+
+export type TowerBundlerClient = Awaited<ReturnType<typeof createTowerBundlerClient>>;
+
+/**
+ * Bundler client for the Solady smart account of a topple session key, a key kept in the browser that the player lets
+ * topple for them (see `useToppleSession`). Nothing ever funds that account, so it needs `paymasterUrl` for gas.
+ */
+export const createSessionBundlerClient = async ({
+  chain,
+  publicClient,
+  sessionKey,
+}: {
+  chain: Chain;
+  publicClient: PublicClient;
+  sessionKey: LocalAccount;
+}) => {
+  if (!scaffoldConfig.paymasterUrl) throw new Error("No paymasterUrl in scaffold.config.ts");
+  const account = await toSoladySmartAccount({ client: publicClient, owner: sessionKey });
+  return bundlerClientFor({ account, chain, publicClient });
+};
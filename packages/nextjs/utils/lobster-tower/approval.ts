@@ -0,0 +1,29 @@
+import { parseUnits } from "viem";
+
+export type ApprovalStrategy =
+  | { kind: "exact" }
+  | { kind: "entries"; entries: number }
+  /** `amount` in CLAWD, as typed */
+  | { kind: "custom"; amount: string };
+
+export const DEFAULT_APPROVAL_ENTRIES = 5;
+
+/**
+ * CLAWD to `approve` for a strategy. Never less than one entry, so an approval always unlocks the next stack.
+ */
+export const getApprovalAmount = (strategy: ApprovalStrategy, entryCost: bigint): bigint => {
+  switch (strategy.kind) {
+    case "entries":
+      return entryCost * BigInt(Math.max(1, Math.floor(strategy.entries) || 1));
+    case "custom": {
+      try {
+        const amount = parseUnits(strategy.amount, 18);
+        return amount > entryCost ? amount : entryCost;
+      } catch {
+        return entryCost;
+      }
+    }
+    default:
+      return entryCost;
+  }
+};
@@ -0,0 +1,116 @@
+import { computeCommit } from "@se-2/sdk";
+import { Address, Hex, encodePacked, keccak256 } from "viem";
+
+export const REVEAL_KEY_TYPES = {
+  LobsterRevealKey: [
+    { name: "account", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+/** The reveal key rotates once per epoch, its nonce is the epoch a reveal was derived in */
+export const REVEAL_KEY_EPOCH_SECONDS = 7n * 24n * 3600n;
+
+/** Random slots per second of a salt, so entries derived in the same second (a bulk entry, a second tab) differ */
+export const REVEAL_SALT_SLOTS = 16;
+/** How long before its commit block a reveal may have been derived and still be recovered (wallet prompts, mempool) */
+const RECOVERY_WINDOW_SECONDS = 3600n;
+/** How far the deriving device's clock may run ahead of the chain */
+const RECOVERY_CLOCK_SKEW_SECONDS = 600n;
+
+/**
+ * EIP-712 payload a player signs once per nonce to derive their reveal key. The domain pins the chain and the
+ * LobsterTower deployment, so the same signature can never be replayed as a key on another tower.
+ */
+export const getRevealKeyTypedData = ({
+  chainId,
+  tower,
+  account,
+  nonce,
+}: {
+  chainId: number;
+  tower: Address;
+  account: Address;
+  nonce: bigint;
+}) =>
+  ({
+    domain: { name: "LobsterTower", version: "1", chainId, verifyingContract: tower },
+    types: REVEAL_KEY_TYPES,
+    primaryType: "LobsterRevealKey",
+    message: { account, nonce },
+  }) as const;
+
+/**
+ * The reveal key nonce for a unix second. Deriving it from time rather than keeping a counter means recovery can tell
+ * it from the commit block alone, even on a device that never saw the entry.
+ */
+export const revealKeyNonce = (second: bigint) => second / REVEAL_KEY_EPOCH_SECONDS;
+
+/**
+ * The key is the hash of the signature. Wallets that sign deterministically (RFC 6979) return the same signature for
+ * the same payload, which is what makes reveals recoverable on any device.
+ */
+export const signatureToRevealKey = (signature: Hex): Hex => keccak256(signature);
+
+/**
+ * Salts for `count` new entries: the current unix second times REVEAL_SALT_SLOTS plus a distinct random slot each.
+ * The second ties a reveal to when it was derived rather than to the position it lands at, so recovery only needs the
+ * commit block's timestamp.
+ */
+export const newRevealSalts = (count: number, now = Date.now()): bigint[] => {
+  if (count > REVEAL_SALT_SLOTS) throw new Error(`At most ${REVEAL_SALT_SLOTS} reveals can be derived at once`);
+  const slots = Array.from({ length: REVEAL_SALT_SLOTS }, (_, i) => i);
+  for (let i = slots.length - 1; i > 0; i--) {
+    const j = crypto.getRandomValues(new Uint32Array(1))[0] % (i + 1);
+    [slots[i], slots[j]] = [slots[j], slots[i]];
+  }
+  const second = BigInt(Math.floor(now / 1000));
+  return slots.slice(0, count).map(slot => second * BigInt(REVEAL_SALT_SLOTS) + BigInt(slot));
+};
+
+export const revealFromKey = (key: Hex, salt: bigint): Hex =>
+  keccak256(encodePacked(["bytes32", "uint256"], [key, salt]));
+
+/** Seconds of salts tried between yields to the event loop, under 100ms of hashing */
+const RECOVERY_CHUNK_SECONDS = 60;
+
+/** `from` down to `to`, both included */
+const range = (from: bigint, to: bigint) => Array.from({ length: Number(from - to) + 1 }, (_, i) => from - BigInt(i));
+
+/** Seconds a reveal committed in a block at `blockTimestamp` may have been derived in, most likely first */
+const recoverySeconds = (blockTimestamp: bigint) => [
+  ...range(blockTimestamp, blockTimestamp - RECOVERY_WINDOW_SECONDS),
+  ...range(blockTimestamp + RECOVERY_CLOCK_SKEW_SECONDS, blockTimestamp + 1n),
+];
+
+/**
+ * Reveal key nonces a commit made in a block at `blockTimestamp` may have been derived under, most likely first. Only
+ * a commit near an epoch boundary has more than one.
+ */
+export const recoveryNonces = (blockTimestamp: bigint) => [
+  ...new Set(recoverySeconds(blockTimestamp).map(revealKeyNonce)),
+];
+
+/**
+ * Tries every salt that could have been derived under `nonce`'s key for a commit made in a block at `blockTimestamp`
+ * and returns the reveal whose commit matches. Seconds before the block come first, newest to oldest, since that's
+ * where a reveal derived on a correct clock lands, then the seconds a fast clock could have used. The whole window is
+ * ~67k hashes, so it yields between chunks to keep the page responsive.
+ */
+export const findReveal = async (
+  key: Hex,
+  nonce: bigint,
+  commitHash: Hex,
+  blockTimestamp: bigint,
+): Promise<Hex | undefined> => {
+  const slots = BigInt(REVEAL_SALT_SLOTS);
+  const seconds = recoverySeconds(blockTimestamp).filter(second => revealKeyNonce(second) === nonce);
+  for (let i = 0; i < seconds.length; i++) {
+    for (let slot = 0n; slot < slots; slot++) {
+      const reveal = revealFromKey(key, seconds[i] * slots + slot);
+      if (computeCommit(reveal) === commitHash) return reveal;
+    }
+    if ((i + 1) % RECOVERY_CHUNK_SECONDS === 0) await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return undefined;
+};
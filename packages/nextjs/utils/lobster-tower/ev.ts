@@ -0,0 +1,94 @@
+// Expected value of one new entry, in CLAWD. Models every entry (ours included) as an independent
+// 1-in-`toppleModulo` roll and ignores reveals that expire or come in late.
+
+export type EntryScenario = {
+  /** Lobsters in the tower before our entry */
+  height: number;
+  /** Topple pot before our entry */
+  pot: number;
+  entryCost: number;
+  participantBps: number;
+  burnBps: number;
+  toppleModulo: number;
+  /** Only used to turn entry counts into time */
+  entriesPerHour: number;
+};
+
+export type EntryEstimate = {
+  toppleChance: number;
+  /** What our entry adds to the pot (all of it but the burn when the tower is empty) */
+  potContribution: number;
+  /** Earnings from the entries that follow ours until the tower topples */
+  expectedEarnings: number;
+  /** Pot after our entry times our chance of toppling it */
+  lotteryEv: number;
+  /** expectedEarnings + lotteryEv - entryCost */
+  netEv: number;
+  /** Entries after ours the tower takes to topple, on average */
+  expectedEntriesBeforeTopple: number;
+  /** Entries after ours for their earnings to cover the entry cost, null if that takes over MAX_ENTRIES */
+  breakevenEntries: number | null;
+  /** Chance the tower is still standing when breakeven is reached */
+  breakevenChance: number | null;
+  hoursUntilTopple: number | null;
+  hoursToBreakeven: number | null;
+};
+
+const BPS_DENOMINATOR = 10_000;
+const MAX_ENTRIES = 1_000_000;
+// Survival odds below this don't move the expectation anymore
+const NEGLIGIBLE = 1e-12;
+
+export const estimateEntry = ({
+  height,
+  pot,
+  entryCost,
+  participantBps,
+  burnBps,
+  toppleModulo,
+  entriesPerHour,
+}: EntryScenario): EntryEstimate => {
+  const toppleChance = toppleModulo > 0 ? 1 / toppleModulo : 1;
+  const survival = 1 - toppleChance;
+  const participantShare = (entryCost * participantBps) / BPS_DENOMINATOR;
+  const burned = (entryCost * burnBps) / BPS_DENOMINATOR;
+  // The first lobster has nobody to pay, its participant share goes to the pot too
+  const potContribution = entryCost - burned - (height > 0 ? participantShare : 0);
+
+  // Entry k after ours splits its participant share over the h + k lobsters standing when it comes in, and only
+  // comes in if our roll and the k - 1 before it all missed
+  let expectedEarnings = 0;
+  let reachedOdds = survival;
+  for (let k = 1; k <= MAX_ENTRIES && reachedOdds > NEGLIGIBLE; k++) {
+    expectedEarnings += (reachedOdds * participantShare) / (height + k);
+    reachedOdds *= survival;
+  }
+
+  let breakevenEntries: number | null = null;
+  let earned = 0;
+  for (let k = 1; k <= MAX_ENTRIES && participantShare > 0; k++) {
+    earned += participantShare / (height + k);
+    if (earned >= entryCost) {
+      breakevenEntries = k;
+      break;
+    }
+  }
+
+  const lotteryEv = (pot + potContribution) * toppleChance;
+  const expectedEntriesBeforeTopple = toppleChance > 0 ? survival / toppleChance : Infinity;
+  const toHours = (entries: number | null) =>
+    entries !== null && entriesPerHour > 0 ? entries / entriesPerHour : null;
+
+  return {
+    toppleChance,
+    potContribution,
+    expectedEarnings,
+    lotteryEv,
+    netEv: expectedEarnings + lotteryEv - entryCost,
+    expectedEntriesBeforeTopple,
+    breakevenEntries,
+    breakevenChance: breakevenEntries !== null ? survival ** breakevenEntries : null,
+    hoursUntilTopple: toHours(expectedEntriesBeforeTopple),
+    hoursToBreakeven: toHours(breakevenEntries),
+  };
+};
@@ -0,0 +1,40 @@
+import { formatUnits } from "viem";
+
+// Helper to format large CLAWD amounts
+export function formatClawd(value: bigint | undefined): string {
+  if (!value) return "0";
+  const num = Number(formatUnits(value, 18));
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`;
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
+  return num.toFixed(0);
+}
+
+export function formatClawdFull(value: bigint | undefined): string {
+  if (!value) return "0";
+  return Number(formatUnits(value, 18)).toLocaleString(undefined, { maximumFractionDigits: 0 });
+}
+
+export function formatUsd(clawd: bigint | undefined, price: number | null): string {
+  if (!clawd || !price) return "";
+  const usd = Number(formatUnits(clawd, 18)) * price;
+  if (usd < 0.01) return "";
+  if (usd >= 1000) return `(~$${(usd / 1000).toFixed(1)}K)`;
+  return `(~$${usd.toFixed(2)})`;
+}
+
+export function formatDateTime(unixSeconds: bigint | number): string {
+  return new Date(Number(unixSeconds) * 1000).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function formatBps(bps: bigint): string {
+  return `${(Number(bps) / 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`;
+}
@@ -0,0 +1,268 @@
+import { Address, Hex } from "viem";
+
+const DB_NAME = "lobster-tower";
+const DB_VERSION = 1;
+const REVEALS_STORE = "reveals";
+const KEYS_STORE = "keys";
+const VAULT_KEY_ID = "reveal-vault";
+
+export type RevealScope = {
+  chainId: number;
+  contract: Address;
+  account: Address;
+};
+
+export type StoredReveal = RevealScope & {
+  positionId: bigint;
+  reveal: Hex;
+  createdAt: number;
+};
+
+/** A reveal saved before its entry was sent, known only by its commit until the LobsterPlaced log names the position */
+export type PendingReveal = RevealScope & {
+  commit: Hex;
+  reveal: Hex;
+  createdAt: number;
+};
+
+type EncryptedRevealRecord = RevealScope & {
+  id: string;
+  scope: string;
+  /** Set once the reveal is bound to its position, pending records only have `commit` */
+  positionId?: string;
+  commit?: Hex;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+  createdAt: number;
+};
+
+const scopeId = ({ chainId, contract, account }: RevealScope) =>
+  `${chainId}:${contract.toLowerCase()}:${account.toLowerCase()}`;
+
+const recordId = (scope: RevealScope, positionId: bigint) => `${scopeId(scope)}:${positionId.toString()}`;
+
+const pendingRecordId = (scope: RevealScope, commit: Hex) => `${scopeId(scope)}:commit:${commit.toLowerCase()}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(REVEALS_STORE)) {
+          const store = db.createObjectStore(REVEALS_STORE, { keyPath: "id" });
+          store.createIndex("scope", "scope", { unique: false });
+        }
+        if (!db.objectStoreNames.contains(KEYS_STORE)) {
+          db.createObjectStore(KEYS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = undefined;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+let vaultKeyPromise: Promise<CryptoKey> | undefined;
+
+/**
+ * The vault key is a non-extractable AES-GCM key that never leaves this browser profile.
+ * IndexedDB can store CryptoKey objects directly, so the raw key material is never exposed to JS.
+ */
+const getVaultKey = () => {
+  if (!vaultKeyPromise) {
+    vaultKeyPromise = (async () => {
+      const db = await openDb();
+      const existing = await requestToPromise<CryptoKey | undefined>(
+        db.transaction(KEYS_STORE, "readonly").objectStore(KEYS_STORE).get(VAULT_KEY_ID),
+      );
+      if (existing) return existing;
+
+      const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+      await requestToPromise(db.transaction(KEYS_STORE, "readwrite").objectStore(KEYS_STORE).put(key, VAULT_KEY_ID));
+      return key;
+    })().catch(e => {
+      vaultKeyPromise = undefined;
+      throw e;
+    });
+  }
+  return vaultKeyPromise;
+};
+
+const encrypt = async (key: CryptoKey, id: string, reveal: Hex) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(id) },
+    key,
+    new TextEncoder().encode(reveal),
+  );
+  return { iv, ciphertext };
+};
+
+const decrypt = async (key: CryptoKey, record: EncryptedRevealRecord) => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: record.iv, additionalData: new TextEncoder().encode(record.id) },
+    key,
+    record.ciphertext,
+  );
+  return new TextDecoder().decode(plaintext) as Hex;
+};
+
+const positionRecord = async (key: CryptoKey, scope: RevealScope, positionId: bigint, reveal: Hex) => {
+  const id = recordId(scope, positionId);
+  const record: EncryptedRevealRecord = {
+    id,
+    scope: scopeId(scope),
+    chainId: scope.chainId,
+    contract: scope.contract,
+    account: scope.account,
+    positionId: positionId.toString(),
+    ...(await encrypt(key, id, reveal)),
+    createdAt: Date.now(),
+  };
+  return record;
+};
+
+const loadRecords = async (scope: RevealScope) => {
+  const [db, key] = await Promise.all([openDb(), getVaultKey()]);
+  const records = await requestToPromise<EncryptedRevealRecord[]>(
+    db.transaction(REVEALS_STORE, "readonly").objectStore(REVEALS_STORE).index("scope").getAll(scopeId(scope)),
+  );
+  return { key, records };
+};
+
+/**
+ * Encrypts and stores the reveal for a position. The record id is used as AES-GCM additional data,
+ * so a ciphertext can't be swapped onto a different position.
+ */
+export const saveReveal = async (scope: RevealScope, positionId: bigint, reveal: Hex) => {
+  const [db, key] = await Promise.all([openDb(), getVaultKey()]);
+  const record = await positionRecord(key, scope, positionId, reveal);
+  await requestToPromise(db.transaction(REVEALS_STORE, "readwrite").objectStore(REVEALS_STORE).put(record));
+};
+
+/**
+ * Encrypts and stores a reveal under its commit, before the entry carrying that commit is sent. Closing the tab
+ * between sending and the receipt then leaves the reveal in the vault, waiting for `bindPendingReveal`.
+ */
+export const savePendingReveal = async (scope: RevealScope, commit: Hex, reveal: Hex) => {
+  const [db, key] = await Promise.all([openDb(), getVaultKey()]);
+  const id = pendingRecordId(scope, commit);
+  const record: EncryptedRevealRecord = {
+    id,
+    scope: scopeId(scope),
+    chainId: scope.chainId,
+    contract: scope.contract,
+    account: scope.account,
+    commit,
+    ...(await encrypt(key, id, reveal)),
+    createdAt: Date.now(),
+  };
+  await requestToPromise(db.transaction(REVEALS_STORE, "readwrite").objectStore(REVEALS_STORE).put(record));
+};
+
+/**
+ * Re-keys the pending reveal for `commit` to the position it landed at. Returns false when there's no pending reveal
+ * for that commit, e.g. it was already bound by another tab.
+ */
+export const bindPendingReveal = async (scope: RevealScope, commit: Hex, positionId: bigint) => {
+  const [db, key] = await Promise.all([openDb(), getVaultKey()]);
+  const id = pendingRecordId(scope, commit);
+  const pending = await requestToPromise<EncryptedRevealRecord | undefined>(
+    db.transaction(REVEALS_STORE, "readonly").objectStore(REVEALS_STORE).get(id),
+  );
+  if (!pending) return false;
+
+  const record = await positionRecord(key, scope, positionId, await decrypt(key, pending));
+  // One transaction, so the reveal is never lost between the two records or left in both
+  const store = db.transaction(REVEALS_STORE, "readwrite").objectStore(REVEALS_STORE);
+  await Promise.all([requestToPromise(store.put(record)), requestToPromise(store.delete(id))]);
+  return true;
+};
+
+/**
+ * Loads and decrypts every stored reveal for a chain / contract / account. Records that fail to decrypt
+ * (e.g. the vault key was cleared) are skipped.
+ */
+export const loadReveals = async (scope: RevealScope): Promise<StoredReveal[]> => {
+  const { key, records } = await loadRecords(scope);
+
+  const reveals = await Promise.all(
+    records.map(async record => {
+      if (record.positionId === undefined) return undefined;
+      try {
+        return {
+          chainId: record.chainId,
+          contract: record.contract,
+          account: record.account,
+          positionId: BigInt(record.positionId),
+          reveal: await decrypt(key, record),
+          createdAt: record.createdAt,
+        };
+      } catch (e) {
+        console.error(`Failed to decrypt reveal for position ${record.positionId}:`, e);
+        return undefined;
+      }
+    }),
+  );
+
+  return reveals
+    .filter((reveal): reveal is StoredReveal => reveal !== undefined)
+    .sort((a, b) => (a.positionId < b.positionId ? -1 : 1));
+};
+
+/**
+ * Loads and decrypts the reveals still waiting for their position, oldest first.
+ */
+export const loadPendingReveals = async (scope: RevealScope): Promise<PendingReveal[]> => {
+  const { key, records } = await loadRecords(scope);
+
+  const reveals = await Promise.all(
+    records.map(async record => {
+      if (record.commit === undefined) return undefined;
+      try {
+        return {
+          chainId: record.chainId,
+          contract: record.contract,
+          account: record.account,
+          commit: record.commit,
+          reveal: await decrypt(key, record),
+          createdAt: record.createdAt,
+        };
+      } catch (e) {
+        console.error(`Failed to decrypt pending reveal for commit ${record.commit}:`, e);
+        return undefined;
+      }
+    }),
+  );
+
+  return reveals
+    .filter((reveal): reveal is PendingReveal => reveal !== undefined)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteReveal = async (scope: RevealScope, positionId: bigint) => {
+  const db = await openDb();
+  await requestToPromise(
+    db.transaction(REVEALS_STORE, "readwrite").objectStore(REVEALS_STORE).delete(recordId(scope, positionId)),
+  );
+};
+
+export const deletePendingReveal = async (scope: RevealScope, commit: Hex) => {
+  const db = await openDb();
+  await requestToPromise(
+    db.transaction(REVEALS_STORE, "readwrite").objectStore(REVEALS_STORE).delete(pendingRecordId(scope, commit)),
+  );
+};
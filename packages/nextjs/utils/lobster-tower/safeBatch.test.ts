@@ -0,0 +1,144 @@
+import { SafeBatchFile, buildSafeBatch, calculateChecksum, serialize, verifySafeBatch } from "./safeBatch";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { keccak256, parseAbi, stringToHex } from "viem";
+
+const TOWER = "0x000000000000000000000000000000000000dEaD";
+const abi = parseAbi([
+  "function setEntryCost(uint256 newCost)",
+  "function setDistribution(uint256 _participantBps, uint256 _burnBps)",
+  "function setPaused(bool _paused)",
+]);
+
+const pauseBatch = (): SafeBatchFile => ({
+  version: "1.0",
+  chainId: "8453",
+  createdAt: 1_700_000_000_000,
+  meta: {
+    name: "Lobster Tower admin",
+    description: "Pause",
+    createdFromSafeAddress: "",
+    createdFromOwnerAddress: "",
+  },
+  transactions: [
+    {
+      to: TOWER,
+      value: "0",
+      data: null,
+      contractMethod: {
+        inputs: [{ internalType: "bool", name: "_paused", type: "bool" }],
+        name: "setPaused",
+        payable: false,
+      },
+      contractInputsValues: { _paused: "true" },
+    },
+  ],
+});
+
+// Written out by hand from the Transaction Builder's format: every object is its sorted keys as a JSON array followed
+// by each value and a comma, arrays are their elements joined by commas
+const PAUSE_BATCH_SERIALIZED =
+  '{["chainId","createdAt","meta","transactions","version"]"8453",1700000000000,' +
+  '{["createdFromOwnerAddress","createdFromSafeAddress","description","name"]"","","Pause",null,},' +
+  '[{["contractInputsValues","contractMethod","data","to","value"]{["_paused"]"true",},' +
+  '{["inputs","name","payable"][{["internalType","name","type"]"bool","_paused","bool",}],"setPaused",false,},' +
+  `null,"${TOWER}","0",}],"1.0",}`;
+
+describe("serialize", () => {
+  it("writes sorted keys, then every value followed by a comma", () => {
+    assert.equal(serialize({ b: [1, "x"], a: { d: null, c: true } }), '{["a","b"]{["c","d"]true,null,},[1,"x"],}');
+  });
+});
+
+describe("calculateChecksum", () => {
+  it("hashes the file with its name nulled", () => {
+    assert.equal(calculateChecksum(pauseBatch()), keccak256(stringToHex(PAUSE_BATCH_SERIALIZED)));
+  });
+
+  it("ignores the batch name and the checksum already in it", () => {
+    const file = pauseBatch();
+    const renamed = { ...file, meta: { ...file.meta, name: "Renamed", checksum: "0x1234" } };
+    assert.equal(calculateChecksum(renamed), calculateChecksum(file));
+  });
+
+  it("changes with anything else in the file", () => {
+    const file = pauseBatch();
+    const edited = {
+      ...file,
+      transactions: [{ ...file.transactions[0], contractInputsValues: { _paused: "false" } }],
+    };
+    assert.notEqual(calculateChecksum(edited), calculateChecksum(file));
+    assert.notEqual(calculateChecksum({ ...file, chainId: "1" }), calculateChecksum(file));
+  });
+});
+
+describe("buildSafeBatch checksum", () => {
+  const exported = (): SafeBatchFile =>
+    JSON.parse(
+      JSON.stringify(
+        buildSafeBatch({
+          chainId: 8453,
+          tower: TOWER,
+          abi,
+          actions: [
+            { functionName: "setEntryCost", args: [50n * 10n ** 18n] },
+            { functionName: "setPaused", args: [true] },
+          ],
+        }),
+      ),
+    );
+
+  it("still matches once the batch went through JSON", () => {
+    const { errors, warnings } = verifySafeBatch(exported(), { chainId: 8453, tower: TOWER, abi });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(warnings, []);
+  });
+
+  it("flags a batch edited after it was exported", () => {
+    const file = exported();
+    file.transactions[0].contractInputsValues = { newCost: "1" };
+    const { errors } = verifySafeBatch(file, { chainId: 8453, tower: TOWER, abi });
+    assert.deepEqual(errors, ["The checksum doesn't match, the batch was edited after it was exported"]);
+  });
+});
+
+describe("verifySafeBatch inputs", () => {
+  const distributionBatch = (contractInputsValues: Record<string, string>): SafeBatchFile => ({
+    ...pauseBatch(),
+    transactions: [
+      {
+        to: TOWER,
+        value: "0",
+        data: null,
+        contractMethod: {
+          inputs: [
+            { internalType: "uint256", name: "_participantBps", type: "uint256" },
+            { internalType: "uint256", name: "_burnBps", type: "uint256" },
+          ],
+          name: "setDistribution",
+          payable: false,
+        },
+        contractInputsValues,
+      },
+    ],
+  });
+  const errorsOf = (file: SafeBatchFile) => verifySafeBatch(file, { chainId: 8453, tower: TOWER, abi }).errors;
+
+  it("rejects a missing amount instead of reading it as zero", () => {
+    assert.deepEqual(errorsOf(distributionBatch({ _participantBps: "8000" })), [
+      "Transaction 1 has an invalid uint256 for _burnBps",
+    ]);
+  });
+
+  it("rejects blank and non-decimal amounts", () => {
+    for (const burnBps of ["", " ", "0x10", "-1", "1e3"]) {
+      assert.deepEqual(errorsOf(distributionBatch({ _participantBps: "8000", _burnBps: burnBps })), [
+        "Transaction 1 has an invalid uint256 for _burnBps",
+      ]);
+    }
+  });
+
+  it("accepts decimal amounts", () => {
+    assert.deepEqual(errorsOf(distributionBatch({ _participantBps: "8000", _burnBps: "1000" })), []);
+  });
+});
@@ -0,0 +1,268 @@
+import { formatBps } from "./format";
+import { BPS_DENOMINATOR } from "@se-2/sdk";
+import {
+  Abi,
+  AbiFunction,
+  Address,
+  Hex,
+  decodeFunctionData,
+  encodeFunctionData,
+  formatUnits,
+  getAddress,
+  isAddress,
+  isAddressEqual,
+  keccak256,
+  stringToHex,
+  zeroAddress,
+} from "viem";
+
+export const ADMIN_FUNCTIONS = ["setEntryCost", "setDistribution", "setPaused", "transferOwnership"] as const;
+
+export type AdminAction =
+  | { functionName: "setEntryCost"; args: readonly [bigint] }
+  | { functionName: "setDistribution"; args: readonly [bigint, bigint] }
+  | { functionName: "setPaused"; args: readonly [boolean] }
+  | { functionName: "transferOwnership"; args: readonly [Address] };
+
+type SafeBatchTransaction = {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: {
+    inputs: { internalType?: string; name: string; type: string }[];
+    name: string;
+    payable: boolean;
+  } | null;
+  contractInputsValues: Record<string, string> | null;
+};
+
+/** The JSON the Safe{Wallet} Transaction Builder app exports and imports */
+export type SafeBatchFile = {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description?: string;
+    createdFromSafeAddress?: string;
+    createdFromOwnerAddress?: string;
+    checksum?: string;
+  };
+  transactions: SafeBatchTransaction[];
+};
+
+export type VerifiedCall = {
+  functionName: string;
+  args: readonly unknown[];
+  description: string;
+};
+
+export type SafeBatchVerification = {
+  calls: VerifiedCall[];
+  /** Reasons not to sign: the batch targets something else, doesn't decode or would revert */
+  errors: string[];
+  warnings: string[];
+};
+
+export const describeAdminAction = ({ functionName, args }: AdminAction): string => {
+  switch (functionName) {
+    case "setEntryCost":
+      return `Set the entry cost to ${formatUnits(args[0], 18)} CLAWD`;
+    case "setDistribution":
+      return `Split each entry ${formatBps(args[0])} to lobsters, ${formatBps(args[1])} burned and ${formatBps(
+        BPS_DENOMINATOR - args[0] - args[1],
+      )} to the pot`;
+    case "setPaused":
+      return args[0] ? "Pause the tower, no new entries" : "Unpause the tower";
+    case "transferOwnership":
+      return `Transfer ownership of the tower to ${args[0]}`;
+  }
+};
+
+// Mirrors the Transaction Builder's own checksum: keccak256 of the file with sorted keys and `meta.name` left out
+export const serialize = (json: unknown): string => {
+  if (Array.isArray(json)) return `[${json.map(serialize).join(",")}]`;
+  if (typeof json === "object" && json !== null) {
+    const keys = Object.keys(json).sort();
+    return `{${JSON.stringify(keys)}${keys.map(key => `${serialize((json as Record<string, unknown>)[key])},`).join("")}}`;
+  }
+  return JSON.stringify(json === undefined ? null : json);
+};
+
+export const calculateChecksum = (file: SafeBatchFile) => {
+  const meta: Partial<SafeBatchFile["meta"]> = { ...file.meta };
+  delete meta.checksum;
+  return keccak256(stringToHex(serialize({ ...file, meta: { ...meta, name: null } })));
+};
+
+const getAbiFunction = (abi: Abi, name: string) =>
+  abi.find((item): item is AbiFunction => item.type === "function" && item.name === name);
+
+/**
+ * A Transaction Builder batch calling the tower's admin functions in order, for a Safe owner to propose and co-sign.
+ * Every call carries its method and named inputs instead of raw calldata, so the Safe app shows them readably.
+ */
+export const buildSafeBatch = ({
+  chainId,
+  tower,
+  abi,
+  actions,
+  safeAddress,
+}: {
+  chainId: number;
+  tower: Address;
+  abi: Abi;
+  actions: AdminAction[];
+  safeAddress?: Address;
+}): SafeBatchFile => {
+  const file: SafeBatchFile = {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: "Lobster Tower admin",
+      description: actions.map(describeAdminAction).join("\n"),
+      createdFromSafeAddress: safeAddress ?? "",
+      createdFromOwnerAddress: "",
+    },
+    transactions: actions.map(({ functionName, args }) => {
+      const method = getAbiFunction(abi, functionName);
+      if (!method) throw new Error(`${functionName} is not in the LobsterTower ABI`);
+      return {
+        to: getAddress(tower),
+        value: "0",
+        data: null,
+        contractMethod: {
+          // Left out rather than undefined, which the exported JSON would drop and so change the checksum
+          inputs: method.inputs.map(({ internalType, name, type }) => ({
+            ...(internalType && { internalType }),
+            name: name!,
+            type,
+          })),
+          name: method.name,
+          payable: method.stateMutability === "payable",
+        },
+        contractInputsValues: Object.fromEntries(method.inputs.map(({ name }, i) => [name!, String(args[i])])),
+      };
+    }),
+  };
+  return { ...file, meta: { ...file.meta, checksum: calculateChecksum(file) } };
+};
+
+const parseInputValue = (type: string, value: string) => {
+  // BigInt reads "" and " " as 0, so a missing amount would pass as zero
+  if (type.startsWith("uint") || type.startsWith("int")) {
+    if (!(type.startsWith("uint") ? /^\d+$/ : /^-?\d+$/).test(value)) throw new Error(`${value} is not an integer`);
+    return BigInt(value);
+  }
+  if (type === "bool") {
+    if (value !== "true" && value !== "false") throw new Error(`${value} is not a bool`);
+    return value === "true";
+  }
+  if (type === "address") return getAddress(value);
+  return value;
+};
+
+/** The calldata a transaction sends, from its raw `data` or from its method and inputs like the Safe app builds it */
+const getCalldata = (abi: Abi, transaction: SafeBatchTransaction): Hex => {
+  const { contractMethod, contractInputsValues, data } = transaction;
+  if (!contractMethod) {
+    if (!data) throw new Error("has neither calldata nor a contract method");
+    return data as Hex;
+  }
+
+  const method = getAbiFunction(abi, contractMethod.name);
+  const signature = (inputs: readonly { type: string }[]) => inputs.map(({ type }) => type).join(",");
+  if (!method || signature(method.inputs) !== signature(contractMethod.inputs)) {
+    throw new Error(
+      `calls ${contractMethod.name}(${signature(contractMethod.inputs)}), which LobsterTower doesn't have`,
+    );
+  }
+  const calldata = encodeFunctionData({
+    abi: [method],
+    args: contractMethod.inputs.map(({ name, type }) => {
+      try {
+        return parseInputValue(type, contractInputsValues?.[name] ?? "");
+      } catch {
+        throw new Error(`has an invalid ${type} for ${name}`);
+      }
+    }),
+  });
+  if (data && data !== "0x" && data.toLowerCase() !== calldata) {
+    throw new Error("has calldata that doesn't match its contract method and inputs");
+  }
+  return calldata;
+};
+
+const isAdminAction = (call: { functionName: string }): call is AdminAction =>
+  (ADMIN_FUNCTIONS as readonly string[]).includes(call.functionName);
+
+/**
+ * Decodes every transaction of a Transaction Builder batch against the LobsterTower ABI before anyone signs it, and
+ * flags whatever shouldn't be signed: another chain or contract, value sent along, calldata that doesn't decode, a
+ * checksum that doesn't match and admin calls the contract would reject.
+ */
+export const verifySafeBatch = (
+  json: unknown,
+  { chainId, tower, abi }: { chainId: number; tower: Address; abi: Abi },
+): SafeBatchVerification => {
+  const file = json as Partial<SafeBatchFile>;
+  if (typeof file !== "object" || file === null || !Array.isArray(file.transactions)) {
+    throw new Error("Not a Safe Transaction Builder batch");
+  }
+
+  const calls: VerifiedCall[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (file.chainId !== chainId.toString()) errors.push(`The batch is for chain ${file.chainId}, not ${chainId}`);
+  if (!file.meta?.checksum) {
+    warnings.push("The batch has no checksum, so edits made after it was exported can't be detected");
+  } else if (calculateChecksum(file as SafeBatchFile) !== file.meta.checksum) {
+    errors.push("The checksum doesn't match, the batch was edited after it was exported");
+  }
+  if (file.transactions.length === 0) errors.push("The batch has no transactions");
+
+  file.transactions.forEach((transaction, i) => {
+    const label = `Transaction ${i + 1}`;
+    if (!isAddress(transaction.to) || !isAddressEqual(transaction.to, tower)) {
+      errors.push(`${label} goes to ${transaction.to}, not LobsterTower at ${getAddress(tower)}`);
+      return;
+    }
+    if (transaction.value !== "0") errors.push(`${label} sends ${transaction.value} wei along`);
+
+    let calldata: Hex;
+    try {
+      calldata = getCalldata(abi, transaction);
+    } catch (e) {
+      errors.push(`${label} ${e instanceof Error ? e.message : "has invalid inputs"}`);
+      return;
+    }
+    let call: { functionName: string; args: readonly unknown[] };
+    try {
+      const decoded = decodeFunctionData({ abi, data: calldata });
+      call = { functionName: decoded.functionName, args: decoded.args ?? [] };
+    } catch {
+      errors.push(`${label} has calldata that doesn't decode against the LobsterTower ABI`);
+      return;
+    }
+
+    if (!isAdminAction(call)) {
+      warnings.push(`${label} calls ${call.functionName}, which isn't an admin function`);
+      calls.push({ ...call, description: `${call.functionName}(${call.args.map(String).join(", ")})` });
+      return;
+    }
+    if (call.functionName === "setDistribution" && call.args[0] + call.args[1] > BPS_DENOMINATOR) {
+      errors.push(`${label} splits more than 100% of each entry and would revert`);
+    }
+    if (call.functionName === "transferOwnership" && isAddressEqual(call.args[0], zeroAddress)) {
+      errors.push(`${label} transfers ownership to the zero address and would revert`);
+    }
+    if (call.functionName === "setEntryCost" && call.args[0] === 0n) {
+      warnings.push(`${label} makes entering free`);
+    }
+    calls.push({ ...call, description: describeAdminAction(call) });
+  });
+
+  return { calls, errors, warnings };
+};
@@ -0,0 +1,29 @@
+import { getLobsterTowerDeployment, lobsterTowerAbi } from "@se-2/sdk";
+import { BaseError, createPublicClient, http } from "viem";
+import scaffoldConfig, { ScaffoldConfig } from "~~/scaffold.config";
+import { getAlchemyHttpUrl } from "~~/utils/scaffold-eth";
+
+// Metadata is generated at build time, don't hold the build up for an unreachable RPC
+const RPC_TIMEOUT_MS = 5_000;
+
+/**
+ * `TOPPLE_MODULO` of the target network's tower, for server-rendered text like the page metadata. It's a contract
+ * constant, so reading it once per build never goes stale. Undefined when the chain can't be reached.
+ */
+export const fetchToppleModulo = async (): Promise<bigint | undefined> => {
+  const chain = scaffoldConfig.targetNetworks[0];
+  const rpcUrl =
+    (scaffoldConfig.rpcOverrides as ScaffoldConfig["rpcOverrides"])?.[chain.id] ?? getAlchemyHttpUrl(chain.id);
+
+  try {
+    const client = createPublicClient({ chain, transport: http(rpcUrl, { timeout: RPC_TIMEOUT_MS, retryCount: 0 }) });
+    return await client.readContract({
+      address: getLobsterTowerDeployment(chain.id).address,
+      abi: lobsterTowerAbi,
+      functionName: "TOPPLE_MODULO",
+    });
+  } catch (e) {
+    console.warn("Could not read TOPPLE_MODULO:", e instanceof BaseError ? e.shortMessage : e);
+    return undefined;
+  }
+};
@@ -17,15 +17,19 @@ import type { MergeDeepRecord } from "type-fest/source/merge-deep";
 import {
   Address,
   Block,
+  Chain,
   GetEventArgs,
   GetTransactionReceiptReturnType,
   GetTransactionReturnType,
   Log,
+  ParseEventLogsReturnType,
   TransactionReceipt,
+  Transport,
   WriteContractErrorType,
   keccak256,
   toHex,
 } from "viem";
+import type { BundlerClient, SmartAccount } from "viem/account-abstraction";
 import { Config, UseReadContractParameters, UseWatchContractEventParameters, UseWriteContractParameters } from "wagmi";
 import { WriteContractParameters, WriteContractReturnType, simulateContract } from "wagmi/actions";
 import { WriteContractVariables } from "wagmi/query";
@@ -215,6 +219,11 @@ type WriteVariables = WriteContractVariables<Abi, string, any[], Config, number>
 export type TransactorFuncOptions = {
   onBlockConfirmation?: (txnReceipt: TransactionReceipt) => void;
   blockConfirmations?: number;
+  /**
+   * Send as a UserOperation from the client's smart account. The transaction function then resolves to a
+   * UserOperation hash, and `onBlockConfirmation` gets the bundle's receipt with only this UserOperation's logs.
+   */
+  bundlerClient?: BundlerClient<Transport, Chain | undefined, SmartAccount>;
 };
 
 export type ScaffoldWriteContractOptions = MutateOptions<
@@ -225,6 +234,19 @@ export type ScaffoldWriteContractOptions = MutateOptions<
 > &
   TransactorFuncOptions;
 
+/**
+ * Receipt logs emitted by the written contract, decoded with its ABI.
+ */
+export type ContractEventLogs<TContractName extends ContractName> = ParseEventLogsReturnType<
+  ContractAbi<TContractName>,
+  undefined,
+  true
+>;
+
+export type ScaffoldWriteContractEventOptions<TContractName extends ContractName> = {
+  onEventLogs?: (logs: ContractEventLogs<TContractName>) => void;
+};
+
 export type UseScaffoldEventConfig<
   TContractName extends ContractName,
   TEventName extends ExtractAbiEventNames<ContractAbi<TContractName>>,
@@ -319,7 +341,7 @@ export type UseScaffoldEventHistoryData<
 > =
   | IsContractDeclarationMissing<
       any[],
-      {
+      ({
         args: AbiParametersToPrimitiveTypes<TEvent["inputs"]> &
           GetEventArgs<
             ContractAbi<TContractName>,
@@ -331,7 +353,7 @@ export type UseScaffoldEventHistoryData<
         blockData: TBlockData extends true ? Block<bigint, true> : null;
         receiptData: TReceiptData extends true ? GetTransactionReturnType : null;
         transactionData: TTransactionData extends true ? GetTransactionReceiptReturnType : null;
-      } & Log<bigint, number, false, TEvent, false, [TEvent], TEventName>[]
+      } & Log<bigint, number, false, TEvent, false, [TEvent], TEventName>)[]
     >
   | undefined;
 
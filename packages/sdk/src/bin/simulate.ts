@@ -0,0 +1,119 @@
+import { BPS_DENOMINATOR } from "../split";
+import { simulateTower, summarizeSimulation } from "../simulator";
+import { parseArgs } from "node:util";
+import { formatUnits, parseUnits } from "viem";
+
+const HELP = `
+Usage: yarn simulate [options]
+Options:
+  --rounds <n>             Topples to simulate (default: 1000)
+  --entry-cost <clawd>     Entry cost in CLAWD (default: 100)
+  --participant-bps <bps>  Share of each entry paid to the lobsters below (default: 8000)
+  --burn-bps <bps>         Share of each entry burned (default: 1000)
+  --modulo <n>             Each entry topples the tower with odds 1 in n (default: 69)
+  --seed <n>               Seed for a reproducible run (default: random)
+  --band <levels>          Tower levels per row of the level table (default: 10)
+  --json                   Print the summary as JSON
+  --help, -h               Show this help message
+Examples:
+  yarn simulate --rounds 5000 --seed 42
+  yarn simulate --participant-bps 7000 --burn-bps 2000 --json
+`;
+
+const BAR_WIDTH = 40;
+
+const { values } = parseArgs({
+  options: {
+    rounds: { type: "string", default: "1000" },
+    "entry-cost": { type: "string", default: "100" },
+    "participant-bps": { type: "string", default: "8000" },
+    "burn-bps": { type: "string", default: "1000" },
+    modulo: { type: "string", default: "69" },
+    seed: { type: "string" },
+    band: { type: "string", default: "10" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+const parseInteger = (name: string, value: string, min: number) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    console.error(`❌ --${name} must be an integer of at least ${min}, got '${value}'`);
+    process.exit(1);
+  }
+  return parsed;
+};
+
+if (values.help) {
+  console.log(HELP);
+  process.exit(0);
+}
+
+const participantBps = BigInt(parseInteger("participant-bps", values["participant-bps"], 0));
+const burnBps = BigInt(parseInteger("burn-bps", values["burn-bps"], 0));
+if (participantBps + burnBps > BPS_DENOMINATOR) {
+  console.error("❌ --participant-bps and --burn-bps add up to more than 10000");
+  process.exit(1);
+}
+
+const seed = values.seed !== undefined ? parseInteger("seed", values.seed, 0) : Date.now() >>> 0;
+const result = simulateTower({
+  entryCost: parseUnits(values["entry-cost"], 18),
+  participantBps,
+  burnBps,
+  toppleModulo: parseInteger("modulo", values.modulo, 1),
+  rounds: parseInteger("rounds", values.rounds, 1),
+  seed,
+});
+const summary = summarizeSimulation(result, { levelBandSize: parseInteger("band", values.band, 1) });
+
+if (values.json) {
+  console.log(
+    JSON.stringify({ seed, totals: result.totals, ...summary }, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    ),
+  );
+  process.exit(0);
+}
+
+const formatClawd = (amount: bigint) =>
+  `${Number(formatUnits(amount, 18)).toLocaleString(undefined, { maximumFractionDigits: 2 })} CLAWD`;
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+const bar = (count: number, max: number) => "█".repeat(max > 0 ? Math.round((count / max) * BAR_WIDTH) : 0);
+
+console.log(
+  `🦞 ${summary.rounds.toLocaleString()} rounds, ${summary.entries.toLocaleString()} lobsters (seed ${seed})`,
+);
+console.log(`   Height:   ${summary.meanHeight.toFixed(1)} on average, ${summary.maxHeight} at most`);
+console.log(`   Pot won:  ${formatClawd(summary.meanPotWon)} on average`);
+console.log(`   Return:   ${summary.meanReturn.toFixed(3)}x the entry cost on average, within the round`);
+console.log(`   Entered:  ${formatClawd(result.totals.entered)}`);
+console.log(`   Burned:   ${formatClawd(result.totals.burned)}`);
+console.log(`   Paid out: ${formatClawd(result.totals.paidOut)}`);
+console.log(
+  `   Owed:     ${formatClawd(result.totals.claimable)} (${summary.claimableToPaidOut.toFixed(3)}x paid out)`,
+);
+if (summary.claimableToPaidOut > 1) {
+  console.log("⚠️  Lobsters of toppled rounds keep earning, so positions are owed more than was paid in");
+}
+
+console.log("\nReturn within the round by level:");
+const maxBand = summary.levels.reduce((max, { positions }) => Math.max(max, positions), 0);
+for (const band of summary.levels) {
+  console.log(
+    `  ${`${band.fromLevel}-${band.toLevel}`.padStart(9)}  ${band.meanReturn.toFixed(3).padStart(7)}x  ` +
+      `${formatPercent(band.breakevenShare).padStart(6)} break even  ` +
+      `${band.positions.toLocaleString().padStart(9)} ${bar(band.positions, maxBand)}`,
+  );
+}
+
+console.log("\nPositions by return (in entry costs):");
+const maxBucket = summary.returns.reduce((max, { positions }) => Math.max(max, positions), 0);
+for (const bucket of summary.returns) {
+  const label = bucket.to === null ? `${bucket.from}+` : `${bucket.from}-${bucket.to}`;
+  console.log(
+    `  ${label.padStart(9)}  ${formatPercent(bucket.positions / (summary.entries || 1)).padStart(6)}  ` +
+      `${bucket.positions.toLocaleString().padStart(9)} ${bar(bucket.positions, maxBucket)}`,
+  );
+}
@@ -0,0 +1,275 @@
+import { computeCommit, generateReveal } from "./commit";
+import { getLobsterTowerDeployment, lobsterTowerAbi } from "./contracts";
+import {
+  ClaimResult,
+  CommitInfo,
+  EnterResult,
+  ExpireResult,
+  Position,
+  RollCheck,
+  ToppleResult,
+  TowerStats,
+} from "./types";
+import {
+  Account,
+  Address,
+  Chain,
+  Client,
+  ContractEventName,
+  Hash,
+  Hex,
+  TransactionReceipt,
+  Transport,
+  erc20Abi,
+  parseEventLogs,
+} from "viem";
+import { readContract, simulateContract, waitForTransactionReceipt, writeContract } from "viem/actions";
+
+// Plain viem clients (instead of PublicClient / WalletClient) so clients for chains with custom formatters, like
+// Base's op-stack ones, are accepted too
+type TowerPublicClient = Client<Transport, Chain | undefined>;
+type TowerWalletClient = Client<Transport, Chain | undefined, Account | undefined>;
+
+export type LobsterTowerClientConfig = {
+  publicClient: TowerPublicClient;
+  /** Needed for `enter`, `topple`, `claim` and `expire`. Must have an account attached. */
+  walletClient?: TowerWalletClient;
+  /** Defaults to the deployment in deployedContracts.ts for the public client's chain. */
+  address?: Address;
+};
+
+/**
+ * Typed, headless client for LobsterTower. Reads return named objects instead of the contract's positional tuples,
+ * writes wait for the receipt and return the values decoded from the contract's own events.
+ *
+ * Reads are sent one `eth_call` per value. Create the public client with `batch: { multicall: true }` to batch them.
+ */
+export class LobsterTowerClient {
+  readonly address: Address;
+  private readonly publicClient: TowerPublicClient;
+  private readonly walletClient?: TowerWalletClient;
+
+  constructor({ publicClient, walletClient, address }: LobsterTowerClientConfig) {
+    if (!address && !publicClient.chain) {
+      throw new Error("LobsterTowerClient: pass an address or a public client with a chain");
+    }
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.address = address ?? getLobsterTowerDeployment(publicClient.chain!.id).address;
+  }
+
+  // ============ Reads ============
+
+  async getStats(): Promise<TowerStats> {
+    const [height, round, pot, entryCost, totalBurned, totalPaidOut, totalToppled] = await readContract(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: lobsterTowerAbi,
+        functionName: "getTowerStats",
+      },
+    );
+    return { height, round, pot, entryCost, totalBurned, totalPaidOut, totalToppled };
+  }
+
+  async getPositions(owner: Address): Promise<Position[]> {
+    const positionIds = await readContract(this.publicClient, {
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "getUserPositions",
+      args: [owner],
+    });
+
+    return Promise.all(
+      positionIds.map(async positionId => {
+        const [[lobsterOwner, enteredAt, round, , claimedAmount], unclaimed] = await Promise.all([
+          readContract(this.publicClient, {
+            address: this.address,
+            abi: lobsterTowerAbi,
+            functionName: "lobsters",
+            args: [positionId],
+          }),
+          readContract(this.publicClient, {
+            address: this.address,
+            abi: lobsterTowerAbi,
+            functionName: "getUnclaimedForPosition",
+            args: [positionId],
+          }),
+        ]);
+        return { positionId, owner: lobsterOwner, enteredAt, round, claimedAmount, unclaimed };
+      }),
+    );
+  }
+
+  /** Unclaimed earnings across all of `owner`'s positions, what `claim` would pay out */
+  async getUnclaimedEarnings(owner: Address): Promise<bigint> {
+    return readContract(this.publicClient, {
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "getUnclaimedEarnings",
+      args: [owner],
+    });
+  }
+
+  async getCommitInfo(positionId: bigint): Promise<CommitInfo> {
+    const [commitHash, commitBlock, committer, revealed, expired] = await readContract(this.publicClient, {
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "getCommitInfo",
+      args: [positionId],
+    });
+    return { commitHash, commitBlock, committer, revealed, expired };
+  }
+
+  /**
+   * Runs `fullCheck` for a position. `blockHash` is zero while the commit block is the latest block and once the
+   * reveal window has expired, in which case there is no roll yet / any more.
+   */
+  async checkRoll(positionId: bigint, reveal: Hex): Promise<RollCheck> {
+    const [winner, roll, blockHash, blocksRemaining] = await readContract(this.publicClient, {
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "fullCheck",
+      args: [positionId, reveal],
+    });
+    return { winner, roll, blockHash, blocksRemaining };
+  }
+
+  // ============ Writes ============
+
+  /**
+   * Stacks a lobster. Approves the entry cost first if the CLAWD allowance is too low (unless `approve` is false).
+   * Keep the returned `reveal`: it's the only way to `topple` with this position.
+   */
+  async enter({
+    reveal = generateReveal(),
+    approve = true,
+  }: { reveal?: Hex; approve?: boolean } = {}): Promise<EnterResult> {
+    const account = this.requireAccount();
+    const entryCost = await readContract(this.publicClient, {
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "entryCost",
+    });
+
+    if (approve) {
+      const clawdToken = await readContract(this.publicClient, {
+        address: this.address,
+        abi: lobsterTowerAbi,
+        functionName: "clawdToken",
+      });
+      const allowance = await readContract(this.publicClient, {
+        address: clawdToken,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [account.address, this.address],
+      });
+      if (allowance < entryCost) {
+        const { request } = await simulateContract(this.publicClient, {
+          account,
+          address: clawdToken,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [this.address, entryCost],
+        });
+        await this.waitForSuccess(await writeContract(this.walletClient!, request));
+      }
+    }
+
+    const commit = computeCommit(reveal);
+    const { request } = await simulateContract(this.publicClient, {
+      account,
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "enterTower",
+      args: [commit],
+    });
+    const hash = await writeContract(this.walletClient!, request);
+    const receipt = await this.waitForSuccess(hash);
+
+    const placed = this.parseEvents(receipt, "LobsterPlaced").find(
+      log => log.args.owner.toLowerCase() === account.address.toLowerCase(),
+    );
+    if (!placed) throw new Error(`LobsterTowerClient: no LobsterPlaced event in ${hash}`);
+
+    return { hash, positionId: placed.args.positionId, round: placed.args.round, reveal, commit };
+  }
+
+  async topple(positionId: bigint, reveal: Hex): Promise<ToppleResult> {
+    const account = this.requireAccount();
+    const { request } = await simulateContract(this.publicClient, {
+      account,
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "topple",
+      args: [positionId, reveal],
+    });
+    const hash = await writeContract(this.walletClient!, request);
+    const receipt = await this.waitForSuccess(hash);
+
+    const [toppled] = this.parseEvents(receipt, "TowerToppled");
+    if (!toppled) throw new Error(`LobsterTowerClient: no TowerToppled event in ${hash}`);
+
+    return { hash, round: toppled.args.round, potWon: toppled.args.potWon, height: toppled.args.height };
+  }
+
+  async claim(): Promise<ClaimResult> {
+    const account = this.requireAccount();
+    const { request } = await simulateContract(this.publicClient, {
+      account,
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "claimEarnings",
+    });
+    const hash = await writeContract(this.walletClient!, request);
+    const receipt = await this.waitForSuccess(hash);
+
+    const [claimed] = this.parseEvents(receipt, "EarningsClaimed");
+    if (!claimed) throw new Error(`LobsterTowerClient: no EarningsClaimed event in ${hash}`);
+
+    return { hash, amount: claimed.args.amount };
+  }
+
+  /**
+   * Closes a commit whose reveal window has passed without a topple. Anyone can expire anyone's commit.
+   */
+  async expire(positionId: bigint): Promise<ExpireResult> {
+    const account = this.requireAccount();
+    const { request } = await simulateContract(this.publicClient, {
+      account,
+      address: this.address,
+      abi: lobsterTowerAbi,
+      functionName: "expireCommit",
+      args: [positionId],
+    });
+    const hash = await writeContract(this.walletClient!, request);
+    await this.waitForSuccess(hash);
+
+    return { hash, positionId };
+  }
+
+  // ============ Internals ============
+
+  private requireAccount(): Account {
+    const account = this.walletClient?.account;
+    if (!account) throw new Error("LobsterTowerClient: a wallet client with an account is required for writes");
+    return account;
+  }
+
+  private async waitForSuccess(hash: Hash) {
+    const receipt = await waitForTransactionReceipt(this.publicClient, { hash });
+    if (receipt.status === "reverted") throw new Error(`LobsterTowerClient: transaction ${hash} reverted`);
+    return receipt;
+  }
+
+  private parseEvents<TEventName extends ContractEventName<typeof lobsterTowerAbi>>(
+    receipt: TransactionReceipt,
+    eventName: TEventName,
+  ) {
+    return parseEventLogs({
+      abi: lobsterTowerAbi,
+      eventName,
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === this.address.toLowerCase()),
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { computeCommit, computeRoll, generateReveal } from "./commit";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Hex, pad } from "viem";
+
+const ZERO = pad("0x0");
+
+// keccak256 of well-known inputs, which the contract's `computeCommit` and `computeRoll` hash the same way
+describe("computeCommit", () => {
+  it("matches keccak256(abi.encodePacked(bytes32(0)))", () => {
+    assert.equal(computeCommit(ZERO), "0x290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563");
+  });
+
+  it("matches keccak256(abi.encodePacked(bytes32(1)))", () => {
+    assert.equal(computeCommit(pad("0x1")), "0xb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6");
+  });
+});
+
+describe("computeRoll", () => {
+  // keccak256(64 zero bytes)
+  const zeroPairHash = 0xad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5n;
+
+  it("hashes reveal and block hash packed, modulo TOPPLE_MODULO", () => {
+    assert.equal(computeRoll(ZERO, ZERO, 69n), zeroPairHash % 69n);
+  });
+
+  it("is always 0 with a modulo of 1", () => {
+    assert.equal(computeRoll(pad("0x1"), pad("0x2"), 1n), 0n);
+  });
+});
+
+describe("generateReveal", () => {
+  it("returns distinct bytes32 values", () => {
+    const reveals = new Set<Hex>(Array.from({ length: 10 }, generateReveal));
+    assert.equal(reveals.size, 10);
+    reveals.forEach(reveal => assert.match(reveal, /^0x[0-9a-f]{64}$/));
+  });
+});
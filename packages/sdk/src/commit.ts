@@ -0,0 +1,17 @@
+import { Hex, encodePacked, keccak256, toHex } from "viem";
+
+/**
+ * Random bytes32 reveal for a new entry.
+ */
+export const generateReveal = (): Hex => toHex(globalThis.crypto.getRandomValues(new Uint8Array(32)));
+
+/**
+ * Same as the contract's `computeCommit`: keccak256(abi.encodePacked(reveal)).
+ */
+export const computeCommit = (reveal: Hex): Hex => keccak256(encodePacked(["bytes32"], [reveal]));
+
+/**
+ * Same as the contract's `computeRoll`. A roll of 0 topples the tower.
+ */
+export const computeRoll = (reveal: Hex, blockHash: Hex, toppleModulo: bigint): bigint =>
+  BigInt(keccak256(encodePacked(["bytes32", "bytes32"], [reveal, blockHash]))) % toppleModulo;
@@ -0,0 +1,41 @@
+import { Address } from "viem";
+import deployedContractsModule from "../../nextjs/contracts/deployedContracts";
+
+// packages/nextjs is CommonJS, so outside of a bundler (e.g. under tsx) the default import is the whole `exports`
+const deployedContracts = (
+  "default" in deployedContractsModule ? deployedContractsModule.default : deployedContractsModule
+) as typeof deployedContractsModule;
+
+/**
+ * LobsterTower ABI, taken from the frontend's generated deployedContracts.ts so the SDK never drifts from the
+ * deployed contract.
+ */
+export const lobsterTowerAbi = deployedContracts[8453].LobsterTower.abi;
+
+export type LobsterTowerDeployment = {
+  address: Address;
+  deployedOnBlock?: number;
+};
+
+export const lobsterTowerDeployments: Record<number, LobsterTowerDeployment> = Object.fromEntries(
+  Object.entries(deployedContracts).flatMap(([chainId, contracts]) =>
+    "LobsterTower" in contracts
+      ? [
+          [
+            Number(chainId),
+            {
+              address: contracts.LobsterTower.address as Address,
+              deployedOnBlock:
+                "deployedOnBlock" in contracts.LobsterTower ? contracts.LobsterTower.deployedOnBlock : undefined,
+            },
+          ],
+        ]
+      : [],
+  ),
+);
+
+export const getLobsterTowerDeployment = (chainId: number): LobsterTowerDeployment => {
+  const deployment = lobsterTowerDeployments[chainId];
+  if (!deployment) throw new Error(`LobsterTower is not deployed on chain ${chainId}`);
+  return deployment;
+};
@@ -0,0 +1,7 @@
+export * from "./client";
+export * from "./commit";
+export * from "./contracts";
+export * from "./leaderboard";
+export * from "./simulator";
+export * from "./split";
+export * from "./types";
@@ -0,0 +1,84 @@
+import { rankLeaderboard } from "./leaderboard";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+const ALICE = "0x00000000000000000000000000000000000000aa";
+const BOB = "0x00000000000000000000000000000000000000bb";
+const CAROL = "0x00000000000000000000000000000000000000cc";
+
+const activity = {
+  entries: [
+    { owner: ALICE, amount: 100n },
+    { owner: BOB, amount: 100n },
+    { owner: ALICE, amount: 100n },
+  ],
+  claims: [
+    { user: ALICE, amount: 50n },
+    { user: CAROL, amount: 10n },
+  ],
+  topples: [{ toppler: BOB, potWon: 300n }],
+} as const;
+
+const ranks = (board: Parameters<typeof rankLeaderboard>[0]) =>
+  rankLeaderboard(board, {
+    entries: [...activity.entries],
+    claims: [...activity.claims],
+    topples: [...activity.topples],
+  }).map(({ rank, address }) => [rank, address]);
+
+describe("rankLeaderboard", () => {
+  it("totals every account's entries, claims and topples", () => {
+    assert.deepEqual(
+      rankLeaderboard("stacked", { entries: [...activity.entries], claims: [...activity.claims], topples: [] })[0],
+      { rank: 1, address: ALICE, stacked: 2, spent: 200n, claimed: 50n, won: 0n, roi: -0.75 },
+    );
+  });
+
+  it("ranks highest first and leaves out accounts without anything to rank by", () => {
+    assert.deepEqual(ranks("claimed"), [
+      [1, ALICE],
+      [2, CAROL],
+    ]);
+    assert.deepEqual(ranks("won"), [[1, BOB]]);
+    assert.deepEqual(ranks("stacked"), [
+      [1, ALICE],
+      [2, BOB],
+    ]);
+  });
+
+  it("only ranks ROI for accounts that entered", () => {
+    // Bob spent 100 and won 300 (+2), Alice spent 200 and claimed 50 (-0.75)
+    assert.deepEqual(ranks("roi"), [
+      [1, BOB],
+      [2, ALICE],
+    ]);
+  });
+
+  it("breaks ties by address", () => {
+    assert.deepEqual(
+      rankLeaderboard("stacked", {
+        entries: [
+          { owner: CAROL, amount: 1n },
+          { owner: ALICE, amount: 1n },
+        ],
+        claims: [],
+        topples: [],
+      }).map(({ address }) => address),
+      [ALICE, CAROL],
+    );
+  });
+
+  it("compares addresses case-insensitively", () => {
+    const checksummed = "0x00000000000000000000000000000000000000AA";
+    const [alice, ...rest] = rankLeaderboard("stacked", {
+      entries: [
+        { owner: ALICE, amount: 1n },
+        { owner: checksummed, amount: 1n },
+      ],
+      claims: [],
+      topples: [],
+    });
+    assert.equal(alice.stacked, 2);
+    assert.deepEqual(rest, []);
+  });
+});
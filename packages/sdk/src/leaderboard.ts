@@ -0,0 +1,64 @@
+import { Address } from "viem";
+
+export const LEADERBOARDS = ["claimed", "won", "stacked", "roi"] as const;
+export type Leaderboard = (typeof LEADERBOARDS)[number];
+
+export type RankedAccount = {
+  rank: number;
+  address: Address;
+  /** Lobsters stacked */
+  stacked: number;
+  spent: bigint;
+  claimed: bigint;
+  won: bigint;
+  /** (claimed + won - spent) / spent, null without any entry */
+  roi: number | null;
+};
+
+/** The `LobsterPlaced`, `EarningsClaimed` and `TowerToppled` arguments a ranking counts */
+export type LeaderboardActivity = {
+  entries: { owner: Address; amount: bigint }[];
+  claims: { user: Address; amount: bigint }[];
+  topples: { toppler: Address; potWon: bigint }[];
+};
+
+/**
+ * Ranks every account in `activity` by one of its totals, highest first and ties by address. Accounts without
+ * anything to rank by are left out. Picking the activity of a single round is up to the caller.
+ */
+export const rankLeaderboard = (
+  board: Leaderboard,
+  { entries, claims, topples }: LeaderboardActivity,
+): RankedAccount[] => {
+  // Addresses are compared case-insensitively
+  const totals = new Map<string, Omit<RankedAccount, "rank" | "roi">>();
+  const totalsOf = (address: Address) => {
+    const key = address.toLowerCase();
+    if (!totals.has(key)) totals.set(key, { address, stacked: 0, spent: 0n, claimed: 0n, won: 0n });
+    return totals.get(key)!;
+  };
+  entries.forEach(({ owner, amount }) => {
+    totalsOf(owner).stacked++;
+    totalsOf(owner).spent += amount;
+  });
+  claims.forEach(({ user, amount }) => (totalsOf(user).claimed += amount));
+  topples.forEach(({ toppler, potWon }) => (totalsOf(toppler).won += potWon));
+
+  return [...totals.values()]
+    .map(total => ({
+      ...total,
+      roi:
+        total.spent > 0n
+          ? Number(((total.claimed + total.won - total.spent) * 1_000_000n) / total.spent) / 1_000_000
+          : null,
+    }))
+    .filter(total =>
+      board === "roi" ? total.roi !== null : board === "stacked" ? total.stacked > 0 : total[board] > 0n,
+    )
+    .sort((a, b) => {
+      const [x, y] = [a[board], b[board]];
+      if (x === y) return a.address.localeCompare(b.address);
+      return x! > y! ? -1 : 1;
+    })
+    .map((total, i) => ({ ...total, rank: i + 1 }));
+};
@@ -0,0 +1,66 @@
+import { simulateTower } from "./simulator";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+const NEVER_TOPPLES = Number.MAX_SAFE_INTEGER;
+
+describe("simulateTower", () => {
+  // 100 wei entries split 80/10/10. By hand, following `enterTower` and `getUnclaimedForPosition`:
+  // #1 pot += 90, acc = 0
+  // #2 acc += 80e18 / 1         -> 80e18
+  // #3 acc += 80e18 / 2         -> 120e18
+  // #4 acc += 80e18 / 3         -> 146666666666666666666
+  const result = simulateTower({
+    entryCost: 100n,
+    participantBps: 8000n,
+    burnBps: 1000n,
+    toppleModulo: NEVER_TOPPLES,
+    rounds: 1,
+    seed: 1,
+    maxEntries: 4,
+  });
+
+  it("snapshots the accumulator as each lobster's debt", () => {
+    assert.deepEqual(
+      result.positions.map(({ level, earnedTotal }) => [level, earnedTotal]),
+      [
+        [1, 146n],
+        [2, 66n],
+        [3, 26n],
+        [4, 0n],
+      ],
+    );
+  });
+
+  it("leaves the accumulator's rounding dust unclaimable", () => {
+    assert.equal(result.totals.paidOut, 240n);
+    assert.equal(result.totals.claimable, 238n);
+    assert.equal(result.totals.burned, 40n);
+    assert.equal(result.totals.pot, 90n + 3n * 10n);
+    assert.equal(result.rounds.length, 0);
+  });
+
+  it("pays the whole pot, first lobster's share included, when every entry topples", () => {
+    const toppling = simulateTower({
+      entryCost: 100n,
+      participantBps: 8000n,
+      burnBps: 1000n,
+      toppleModulo: 1,
+      rounds: 3,
+      seed: 1,
+    });
+    assert.deepEqual(toppling.rounds, [
+      { height: 1, potWon: 90n },
+      { height: 1, potWon: 90n },
+      { height: 1, potWon: 90n },
+    ]);
+    assert.equal(toppling.totals.paidOut, 0n);
+    assert.equal(toppling.totals.potsWon, 270n);
+    assert.equal(toppling.totals.pot, 0n);
+  });
+
+  it("replays the same towers from the same seed", () => {
+    const config = { entryCost: 100n, participantBps: 8000n, burnBps: 1000n, toppleModulo: 5, rounds: 20, seed: 42 };
+    assert.deepEqual(simulateTower(config).rounds, simulateTower(config).rounds);
+  });
+});
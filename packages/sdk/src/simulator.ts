@@ -0,0 +1,210 @@
+import { splitEntry } from "./split";
+
+export const PRECISION = 10n ** 18n;
+
+export type SimulationConfig = {
+  entryCost: bigint;
+  participantBps: bigint;
+  burnBps: bigint;
+  /** Each entry topples the tower with probability 1 / toppleModulo */
+  toppleModulo: number;
+  /** Topples to simulate */
+  rounds: number;
+  /** Same seed, same towers */
+  seed?: number;
+  /** Safety stop for huge moduli, the last round is cut short when it's hit */
+  maxEntries?: number;
+};
+
+export type SimulatedPosition = {
+  round: number;
+  /** 1 for the first lobster of its round */
+  level: number;
+  /** `getUnclaimedForPosition` right when its round toppled */
+  earnedInRound: bigint;
+  /** `getUnclaimedForPosition` when the simulation stopped, which keeps growing after the topple */
+  earnedTotal: bigint;
+  /** Pot won if this lobster toppled the tower */
+  potWon: bigint;
+};
+
+export type SimulatedRound = { height: number; potWon: bigint };
+
+export type SimulationResult = {
+  config: SimulationConfig;
+  positions: SimulatedPosition[];
+  rounds: SimulatedRound[];
+  totals: {
+    entered: bigint;
+    burned: bigint;
+    /** Participant shares actually paid into the accumulator (the contract's `totalPaidOut`) */
+    paidOut: bigint;
+    /** What every position could claim at the end. Above `paidOut` when toppled lobsters keep earning */
+    claimable: bigint;
+    potsWon: bigint;
+    /** Pot left in the unfinished last round, if any */
+    pot: bigint;
+  };
+};
+
+const DEFAULT_MAX_ENTRIES = 5_000_000;
+
+/** mulberry32, a small seeded PRNG so runs can be reproduced */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Replays `enterTower` and `topple` with the contract's integer math: the split from `splitEntry`, the
+ * `accEarningsPerLobster` update divided by the height before the entry, and `earningsDebt` snapshots. Every entry is
+ * revealed right away and topples on a roll of 0 out of `toppleModulo`.
+ */
+export const simulateTower = (config: SimulationConfig): SimulationResult => {
+  const { entryCost, participantBps, burnBps, toppleModulo, rounds } = config;
+  const random = createRandom(config.seed ?? Date.now());
+  const maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+  let acc = 0n;
+  let towerHeight = 0n;
+  let pot = 0n;
+  const totals = { entered: 0n, burned: 0n, paidOut: 0n, claimable: 0n, potsWon: 0n, pot: 0n };
+
+  const debts: bigint[] = [];
+  const positions: Omit<SimulatedPosition, "earnedTotal">[] = [];
+  const simulatedRounds: SimulatedRound[] = [];
+  let roundStart = 0;
+
+  while (simulatedRounds.length < rounds && positions.length < maxEntries) {
+    const split = splitEntry({ entryCost, participantBps, burnBps, towerHeight });
+    if (towerHeight > 0n) {
+      acc += (split.participantShare * PRECISION) / towerHeight;
+      totals.paidOut += split.participantShare;
+    }
+    totals.entered += entryCost;
+    totals.burned += split.burnAmount;
+    pot += split.potAmount;
+    towerHeight++;
+
+    debts.push(acc);
+    positions.push({
+      round: simulatedRounds.length,
+      level: Number(towerHeight),
+      earnedInRound: 0n,
+      potWon: 0n,
+    });
+
+    if (Math.floor(random() * toppleModulo) === 0) {
+      positions[positions.length - 1].potWon = pot;
+      for (let i = roundStart; i < positions.length; i++) positions[i].earnedInRound = (acc - debts[i]) / PRECISION;
+      simulatedRounds.push({ height: Number(towerHeight), potWon: pot });
+      totals.potsWon += pot;
+      pot = 0n;
+      towerHeight = 0n;
+      roundStart = positions.length;
+    }
+  }
+
+  // Lobsters of an unfinished round have earned whatever they have so far
+  for (let i = roundStart; i < positions.length; i++) positions[i].earnedInRound = (acc - debts[i]) / PRECISION;
+  totals.pot = pot;
+
+  const finalPositions = positions.map((position, i) => {
+    const earnedTotal = (acc - debts[i]) / PRECISION;
+    totals.claimable += earnedTotal;
+    return { ...position, earnedTotal };
+  });
+
+  return { config, positions: finalPositions, rounds: simulatedRounds, totals };
+};
+
+// ============ Summaries ============
+
+export type LevelBand = {
+  /** Levels `fromLevel` to `toLevel`, inclusive */
+  fromLevel: number;
+  toLevel: number;
+  positions: number;
+  /** Mean of (earned in round + pot won) / entry cost */
+  meanReturn: number;
+  /** Share of positions that got at least their entry cost back within their round */
+  breakevenShare: number;
+};
+
+export type ReturnBucket = {
+  /** Returns (in entry costs) from `from`, up to but excluding `to` (open-ended for the last bucket) */
+  from: number;
+  to: number | null;
+  positions: number;
+};
+
+export type SimulationSummary = {
+  rounds: number;
+  entries: number;
+  meanHeight: number;
+  maxHeight: number;
+  meanPotWon: bigint;
+  /** Mean of (earned in round + pot won) / entry cost over all positions */
+  meanReturn: number;
+  /** totals.claimable / totals.paidOut, above 1 when the accumulator owes more than was paid in */
+  claimableToPaidOut: number;
+  levels: LevelBand[];
+  returns: ReturnBucket[];
+};
+
+const toRatio = (numerator: bigint, denominator: bigint) =>
+  denominator > 0n ? Number((numerator * 1_000_000n) / denominator) / 1_000_000 : 0;
+
+/**
+ * Payout distributions of a simulation: per band of tower levels, and as a histogram of returns in entry costs.
+ */
+export const summarizeSimulation = (
+  { config, positions, rounds, totals }: SimulationResult,
+  { levelBandSize = 10, returnBucketSize = 0.5, returnBuckets = 8 } = {},
+): SimulationSummary => {
+  const returnOf = (position: SimulatedPosition) => toRatio(position.earnedInRound + position.potWon, config.entryCost);
+  const returns = positions.map(returnOf);
+
+  const maxLevel = positions.reduce((max, { level }) => Math.max(max, level), 0);
+  const bandCount = Math.ceil(maxLevel / levelBandSize);
+  const levels = Array.from({ length: bandCount }, (_, band): LevelBand => {
+    const fromLevel = band * levelBandSize + 1;
+    const toLevel = fromLevel + levelBandSize - 1;
+    const bandReturns = returns.filter((_, i) => positions[i].level >= fromLevel && positions[i].level <= toLevel);
+    return {
+      fromLevel,
+      toLevel,
+      positions: bandReturns.length,
+      meanReturn: bandReturns.reduce((sum, r) => sum + r, 0) / (bandReturns.length || 1),
+      breakevenShare: bandReturns.filter(r => r >= 1).length / (bandReturns.length || 1),
+    };
+  });
+
+  const buckets = Array.from({ length: returnBuckets }, (_, i): ReturnBucket => {
+    const from = i * returnBucketSize;
+    const isLast = i === returnBuckets - 1;
+    return {
+      from,
+      to: isLast ? null : from + returnBucketSize,
+      positions: returns.filter(r => r >= from && (isLast || r < from + returnBucketSize)).length,
+    };
+  });
+
+  return {
+    rounds: rounds.length,
+    entries: positions.length,
+    meanHeight: rounds.reduce((sum, { height }) => sum + height, 0) / (rounds.length || 1),
+    maxHeight: rounds.reduce((max, { height }) => Math.max(max, height), 0),
+    meanPotWon: rounds.length > 0 ? totals.potsWon / BigInt(rounds.length) : 0n,
+    meanReturn: returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1),
+    claimableToPaidOut: toRatio(totals.claimable, totals.paidOut),
+    levels,
+    returns: buckets,
+  };
+};
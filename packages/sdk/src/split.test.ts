@@ -0,0 +1,37 @@
+import { splitEntry } from "./split";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// Expected values follow `enterTower`'s integer math by hand
+describe("splitEntry", () => {
+  it("splits 100 CLAWD 80/10/10", () => {
+    assert.deepEqual(
+      splitEntry({ entryCost: 100n * 10n ** 18n, participantBps: 8000n, burnBps: 1000n, towerHeight: 5n }),
+      { participantShare: 80n * 10n ** 18n, burnAmount: 10n * 10n ** 18n, potAmount: 10n * 10n ** 18n },
+    );
+  });
+
+  it("rounds the participant share and burn down and leaves the dust in the pot", () => {
+    assert.deepEqual(splitEntry({ entryCost: 12_345n, participantBps: 8000n, burnBps: 1000n, towerHeight: 1n }), {
+      participantShare: 9876n,
+      burnAmount: 1234n,
+      potAmount: 1235n,
+    });
+  });
+
+  it("sends the first lobster's participant share to the pot", () => {
+    assert.deepEqual(splitEntry({ entryCost: 12_345n, participantBps: 8000n, burnBps: 1000n, towerHeight: 0n }), {
+      participantShare: 0n,
+      burnAmount: 1234n,
+      potAmount: 11_111n,
+    });
+  });
+
+  it("puts everything in the pot with a 0/0 split", () => {
+    assert.deepEqual(splitEntry({ entryCost: 777n, participantBps: 0n, burnBps: 0n, towerHeight: 3n }), {
+      participantShare: 0n,
+      burnAmount: 0n,
+      potAmount: 777n,
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { EntrySplit } from "./types";
+
+export const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Mirrors the split in `enterTower`, including integer division and the first-lobster rule: when the tower is empty
+ * nobody can earn the participant share, so it goes to the pot.
+ */
+export const splitEntry = ({
+  entryCost,
+  participantBps,
+  burnBps,
+  towerHeight,
+}: {
+  entryCost: bigint;
+  participantBps: bigint;
+  burnBps: bigint;
+  towerHeight: bigint;
+}): EntrySplit => {
+  const participantShare = (entryCost * participantBps) / BPS_DENOMINATOR;
+  const burnAmount = (entryCost * burnBps) / BPS_DENOMINATOR;
+  const potAmount = entryCost - participantShare - burnAmount;
+
+  if (towerHeight === 0n) {
+    return { participantShare: 0n, burnAmount, potAmount: potAmount + participantShare };
+  }
+  return { participantShare, burnAmount, potAmount };
+};
@@ -0,0 +1,66 @@
+import { Address, Hash, Hex } from "viem";
+
+export type TowerStats = {
+  height: bigint;
+  round: bigint;
+  pot: bigint;
+  entryCost: bigint;
+  totalBurned: bigint;
+  totalPaidOut: bigint;
+  totalToppled: bigint;
+};
+
+export type Position = {
+  positionId: bigint;
+  owner: Address;
+  enteredAt: bigint;
+  round: bigint;
+  claimedAmount: bigint;
+  unclaimed: bigint;
+};
+
+export type CommitInfo = {
+  commitHash: Hex;
+  commitBlock: bigint;
+  committer: Address;
+  revealed: boolean;
+  expired: boolean;
+};
+
+export type RollCheck = {
+  winner: boolean;
+  roll: bigint;
+  blockHash: Hex;
+  blocksRemaining: bigint;
+};
+
+export type EntrySplit = {
+  participantShare: bigint;
+  burnAmount: bigint;
+  potAmount: bigint;
+};
+
+export type EnterResult = {
+  hash: Hash;
+  positionId: bigint;
+  round: bigint;
+  reveal: Hex;
+  commit: Hex;
+};
+
+export type ToppleResult = {
+  hash: Hash;
+  round: bigint;
+  potWon: bigint;
+  height: bigint;
+};
+
+export type ClaimResult = {
+  hash: Hash;
+  amount: bigint;
+};
+
+export type ExpireResult = {
+  hash: Hash;
+  positionId: bigint;
+};